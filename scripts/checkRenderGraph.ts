@@ -0,0 +1,123 @@
+/**
+ * ClipForge - Render Graph Check
+ *
+ * Runs buildRenderGraph/buildRenderArgs on small timelines and asserts on the
+ * ffmpeg arguments they produce. Nothing is rendered, so it runs without
+ * ffmpeg or any media: `npm run check:render-graph`.
+ */
+
+import assert from 'assert';
+import { buildRenderArgs, buildRenderGraph, RenderClip, RenderFrame } from '../src/renderGraph';
+
+const frame: RenderFrame = { width: 1920, height: 1080, frameRate: 30 };
+
+const clip = (overrides: Partial<RenderClip>): RenderClip => ({
+  path: '/media/a.mp4',
+  track: 0,
+  startTime: 0,
+  duration: 4,
+  trimStart: 0,
+  hasAudio: true,
+  ...overrides,
+});
+
+const checks: [string, () => void][] = [
+  [
+    'a single clip is seeked on input and concatenated on its own',
+    () => {
+      const graph = buildRenderGraph([clip({ trimStart: 1.5 })], frame, 4);
+      assert.deepStrictEqual(graph.inputArgs, ['-ss', '1.5', '-t', '4', '-i', '/media/a.mp4']);
+      assert.ok(graph.filters[0].startsWith('[0:v]scale=1920:1080:force_original_aspect_ratio=decrease'));
+      assert.ok(graph.filters[1].startsWith('[0:a]'));
+      assert.strictEqual(graph.filters[graph.filters.length - 1], '[v0][a0]concat=n=1:v=1:a=1[basev][basea]');
+      assert.strictEqual(graph.videoLabel, '[basev]');
+      assert.strictEqual(graph.audioLabel, '[basea]');
+    },
+  ],
+  [
+    'gaps on the base track are filled with black and silence',
+    () => {
+      const graph = buildRenderGraph([clip({ startTime: 2, duration: 3 })], frame, 6);
+      assert.ok(graph.filters[0].startsWith('color=c=black:s=1920x1080:r=30:d=2,'));
+      assert.ok(graph.filters[1].startsWith('anullsrc='));
+      assert.ok(graph.filters.some((filter) => filter.startsWith('color=c=black:s=1920x1080:r=30:d=1,')));
+      assert.ok(graph.filters[graph.filters.length - 1].includes('concat=n=3:v=1:a=1'));
+    },
+  ],
+  [
+    'a range with only gaps in it renders black without inputs',
+    () => {
+      const graph = buildRenderGraph([], frame, 2.5);
+      assert.deepStrictEqual(graph.inputArgs, []);
+      assert.ok(graph.filters[0].startsWith('color=c=black:s=1920x1080:r=30:d=2.5,'));
+      assert.throws(() => buildRenderGraph([], frame, 0), /Nothing to render/);
+    },
+  ],
+  [
+    'clips without audio get generated silence',
+    () => {
+      const graph = buildRenderGraph([clip({ hasAudio: false })], frame, 4);
+      assert.ok(graph.filters[1].startsWith('anullsrc=channel_layout=stereo:sample_rate=44100,atrim=duration=4,'));
+    },
+  ],
+  [
+    'higher video tracks are overlaid while they are on screen',
+    () => {
+      const graph = buildRenderGraph([clip({}), clip({ path: '/media/b.mp4', track: 1, startTime: 1, duration: 2 })], frame, 4);
+      assert.ok(graph.filters.some((filter) => filter.includes("overlay=") && filter.includes("enable='between(t,1,3)'")));
+      assert.strictEqual(graph.videoLabel, '[ovout0]');
+      assert.ok(graph.filters[graph.filters.length - 1].startsWith('[basea][oa0]amix=inputs=2'));
+    },
+  ],
+  [
+    'audio-track clips are delayed to their position and mixed in',
+    () => {
+      const graph = buildRenderGraph([clip({}), clip({ path: '/media/music.mp3', track: 2, startTime: 1.25 })], frame, 4);
+      assert.ok(graph.filters.some((filter) => filter.endsWith('adelay=1250:all=1[ta0]')));
+      assert.strictEqual(graph.audioLabel, '[aout]');
+    },
+  ],
+  [
+    'the arguments map the graph outputs and end with the encoder options and output path',
+    () => {
+      const args = buildRenderArgs([clip({})], frame, 4, ['-c:v', 'libx264'], '/out/export.mp4');
+      assert.deepStrictEqual(args.slice(-11), [
+        '-map', '[basev]',
+        '-map', '[basea]',
+        '-r', '30',
+        '-t', '4',
+        '-c:v', 'libx264',
+        '/out/export.mp4',
+      ]);
+      assert.strictEqual(args[args.indexOf('-filter_complex') + 1].split(';').length, 3);
+    },
+  ],
+  [
+    'the same timeline always yields the same arguments',
+    () => {
+      const clips = [clip({ track: 1, startTime: 1 }), clip({}), clip({ track: 2, hasAudio: true })];
+      assert.deepStrictEqual(
+        buildRenderArgs(clips, frame, 5, [], '/out/export.mp4'),
+        buildRenderArgs([...clips].reverse(), frame, 5, [], '/out/export.mp4')
+      );
+    },
+  ],
+];
+
+let failures = 0;
+for (const [name, check] of checks) {
+  try {
+    check();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    failures++;
+    console.error(`FAIL - ${name}`);
+    console.error(error);
+  }
+}
+
+if (failures > 0) {
+  console.error(`${failures} of ${checks.length} render graph checks failed`);
+  process.exit(1);
+}
+console.log(`All ${checks.length} render graph checks passed`);
@@ -0,0 +1,76 @@
+/**
+ * ClipForge - Clip Audio
+ *
+ * Per-clip level, mute and fades. Export applies them with ffmpeg's volume
+ * and afade filters; the preview computes the same gain curve and applies it
+ * to each player through Web Audio.
+ */
+
+export interface ClipAudio {
+  // Level in dB relative to the source (0 = unchanged)
+  volume: number;
+  muted: boolean;
+  // Linear ramps at the start and end of the clip, in seconds
+  fadeIn: number;
+  fadeOut: number;
+}
+
+export const DEFAULT_CLIP_AUDIO: ClipAudio = {
+  volume: 0,
+  muted: false,
+  fadeIn: 0,
+  fadeOut: 0,
+};
+
+// Volume control range, in dB
+export const MIN_VOLUME_DB = -40;
+export const MAX_VOLUME_DB = 12;
+
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+export const isDefaultAudio = (audio: ClipAudio): boolean =>
+  audio.volume === 0 && !audio.muted && audio.fadeIn === 0 && audio.fadeOut === 0;
+
+// Fades can't be longer than the clip they're on (a trim may have shortened it since they were set)
+const getFades = (audio: ClipAudio, duration: number) => ({
+  fadeIn: Math.min(Math.max(0, audio.fadeIn), duration),
+  fadeOut: Math.min(Math.max(0, audio.fadeOut), duration),
+});
+
+// Gain `elapsed` seconds into a clip `duration` seconds long: the volume scaled by the fade ramps
+export const getClipGain = (audio: ClipAudio | undefined, elapsed: number, duration: number): number => {
+  if (!audio) return 1;
+  if (audio.muted) return 0;
+
+  const { fadeIn, fadeOut } = getFades(audio, duration);
+  let gain = dbToGain(audio.volume);
+  if (fadeIn > 0) {
+    gain *= Math.min(1, Math.max(0, elapsed / fadeIn));
+  }
+  if (fadeOut > 0) {
+    gain *= Math.min(1, Math.max(0, (duration - elapsed) / fadeOut));
+  }
+  return gain;
+};
+
+// Stable text for filter arguments (no float noise like 1.2000000000000002)
+const formatValue = (value: number) => Number(value.toFixed(3)).toString();
+
+// ffmpeg filters for a clip's audio once it has been cut to `duration` and starts at 0.
+// Muting is left to the caller, which can skip the clip's audio altogether.
+export const getAudioFilters = (audio: ClipAudio | undefined, duration: number): string[] => {
+  if (!audio) return [];
+
+  const { fadeIn, fadeOut } = getFades(audio, duration);
+  const filters: string[] = [];
+  if (audio.volume !== 0) {
+    filters.push(`volume=${formatValue(audio.volume)}dB`);
+  }
+  if (fadeIn > 0) {
+    filters.push(`afade=t=in:st=0:d=${formatValue(fadeIn)}`);
+  }
+  if (fadeOut > 0) {
+    filters.push(`afade=t=out:st=${formatValue(duration - fadeOut)}:d=${formatValue(fadeOut)}`);
+  }
+  return filters;
+};
@@ -0,0 +1,113 @@
+/**
+ * ClipForge - Color Correction
+ *
+ * Per-clip color adjustments and looks. Export applies them with ffmpeg's
+ * eq, hue and colorchannelmixer filters; the preview applies the same
+ * operations, in the same order, as an SVG filter on the canvas.
+ */
+
+export type ColorLook = 'none' | 'blackAndWhite' | 'sepia' | 'warm' | 'cool';
+
+export interface ColorCorrection {
+  // Added to every channel, -1 to 1
+  brightness: number;
+  // Scales values around mid-grey, 0 to 2
+  contrast: number;
+  // 0 (greyscale) to 3
+  saturation: number;
+  // 0.1 to 3; above 1 brightens the midtones
+  gamma: number;
+  // Hue rotation in degrees, -180 to 180
+  hue: number;
+  look: ColorLook;
+}
+
+export const DEFAULT_COLOR_CORRECTION: ColorCorrection = {
+  brightness: 0,
+  contrast: 1,
+  saturation: 1,
+  gamma: 1,
+  hue: 0,
+  look: 'none',
+};
+
+export const COLOR_LOOK_LABELS: Record<ColorLook, string> = {
+  none: 'None',
+  blackAndWhite: 'Black & White',
+  sepia: 'Sepia',
+  warm: 'Warm',
+  cool: 'Cool',
+};
+
+// Each look is a 3x3 RGB mixing matrix (rows are output red, green, blue)
+const LOOK_MATRICES: Record<Exclude<ColorLook, 'none'>, number[]> = {
+  blackAndWhite: [0.299, 0.587, 0.114, 0.299, 0.587, 0.114, 0.299, 0.587, 0.114],
+  sepia: [0.393, 0.769, 0.189, 0.349, 0.686, 0.168, 0.272, 0.534, 0.131],
+  warm: [1.08, 0, 0, 0, 1, 0, 0, 0, 0.88],
+  cool: [0.9, 0, 0, 0, 1, 0, 0, 0, 1.1],
+};
+
+// Stable text for filter arguments (no float noise like 1.2000000000000002)
+const formatValue = (value: number) => Number(value.toFixed(3)).toString();
+
+export const isNeutralColor = (color: ColorCorrection): boolean =>
+  color.brightness === 0 &&
+  color.contrast === 1 &&
+  color.saturation === 1 &&
+  color.gamma === 1 &&
+  color.hue === 0 &&
+  color.look === 'none';
+
+// ffmpeg filters for a clip's correction, in application order (empty when there is nothing to do)
+export const getColorFilters = (color: ColorCorrection | undefined): string[] => {
+  if (!color || isNeutralColor(color)) return [];
+
+  const filters: string[] = [];
+  if (color.brightness !== 0 || color.contrast !== 1 || color.saturation !== 1 || color.gamma !== 1) {
+    filters.push(
+      `eq=brightness=${formatValue(color.brightness)}:contrast=${formatValue(color.contrast)}:` +
+        `saturation=${formatValue(color.saturation)}:gamma=${formatValue(color.gamma)}`
+    );
+  }
+  if (color.hue !== 0) {
+    filters.push(`hue=h=${formatValue(color.hue)}`);
+  }
+  if (color.look !== 'none') {
+    const [rr, rg, rb, gr, gg, gb, br, bg, bb] = LOOK_MATRICES[color.look];
+    filters.push(
+      `colorchannelmixer=rr=${rr}:rg=${rg}:rb=${rb}:gr=${gr}:gg=${gg}:gb=${gb}:br=${br}:bg=${bg}:bb=${bb}`
+    );
+  }
+  return filters;
+};
+
+// SVG filter primitives that reproduce getColorFilters() on the canvas, for use inside a <filter>
+// with color-interpolation-filters="sRGB"
+export const getColorFilterPrimitives = (color: ColorCorrection): string => {
+  const primitives: string[] = [];
+
+  if (color.brightness !== 0 || color.contrast !== 1) {
+    // eq: (value - 0.5) * contrast + 0.5 + brightness
+    const slope = formatValue(color.contrast);
+    const intercept = formatValue(0.5 - 0.5 * color.contrast + color.brightness);
+    const func = `type="linear" slope="${slope}" intercept="${intercept}"`;
+    primitives.push(`<feComponentTransfer><feFuncR ${func}/><feFuncG ${func}/><feFuncB ${func}/></feComponentTransfer>`);
+  }
+  if (color.gamma !== 1) {
+    const func = `type="gamma" amplitude="1" exponent="${formatValue(1 / color.gamma)}" offset="0"`;
+    primitives.push(`<feComponentTransfer><feFuncR ${func}/><feFuncG ${func}/><feFuncB ${func}/></feComponentTransfer>`);
+  }
+  if (color.saturation !== 1) {
+    primitives.push(`<feColorMatrix type="saturate" values="${formatValue(color.saturation)}"/>`);
+  }
+  if (color.hue !== 0) {
+    primitives.push(`<feColorMatrix type="hueRotate" values="${formatValue(color.hue)}"/>`);
+  }
+  if (color.look !== 'none') {
+    const [rr, rg, rb, gr, gg, gb, br, bg, bb] = LOOK_MATRICES[color.look];
+    const values = [rr, rg, rb, 0, 0, gr, gg, gb, 0, 0, br, bg, bb, 0, 0, 0, 0, 0, 1, 0].join(' ');
+    primitives.push(`<feColorMatrix type="matrix" values="${values}"/>`);
+  }
+
+  return primitives.join('');
+};
@@ -0,0 +1,164 @@
+/**
+ * ClipForge - Composition Layout
+ *
+ * Frame geometry shared by the exporter (main process) and the preview
+ * (renderer) so both place every layer in the same spot.
+ */
+
+export const OUTPUT_WIDTH = 1920;
+export const OUTPUT_HEIGHT = 1080;
+
+// Clips on tracks above the base track are fitted into a box this fraction of
+// the frame size, anchored to the bottom-right corner
+export const OVERLAY_SCALE = 0.3;
+// Gap between an overlay and the frame edge, as a fraction of the frame width
+export const OVERLAY_MARGIN = 0.02;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The timeline has video tracks (0 and 1, which also take text) followed by audio-only tracks
+export const VIDEO_TRACK_COUNT = 2;
+export const AUDIO_TRACK_COUNT = 2;
+
+export const isAudioTrack = (track: number): boolean => track >= VIDEO_TRACK_COUNT;
+
+// Video encoders need even dimensions
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+export const getOverlayMargin = (frameWidth: number): number => Math.round(frameWidth * OVERLAY_MARGIN);
+
+// Output frame height for each export resolution (width follows from a 16:9 frame)
+const RESOLUTION_HEIGHTS: Record<string, number> = {
+  '720p': 720,
+  '1080p': 1080,
+  '2160p': 2160,
+};
+
+// Resolve an export resolution to frame dimensions; 'source' uses the given source size
+export const getOutputSize = (
+  resolution: string,
+  orientation: 'landscape' | 'portrait',
+  sourceWidth: number,
+  sourceHeight: number
+): { width: number; height: number } => {
+  if (resolution === 'source') {
+    if (sourceWidth <= 0 || sourceHeight <= 0) {
+      return { width: OUTPUT_WIDTH, height: OUTPUT_HEIGHT };
+    }
+    return { width: toEven(sourceWidth), height: toEven(sourceHeight) };
+  }
+
+  const shortSide = RESOLUTION_HEIGHTS[resolution] || OUTPUT_HEIGHT;
+  const longSide = toEven((shortSide * 16) / 9);
+
+  return orientation === 'portrait'
+    ? { width: shortSide, height: longSide }
+    : { width: longSide, height: shortSide };
+};
+
+// Where a base-track source lands: scaled to fit the frame and centered (letterboxed)
+export const getFrameRect = (
+  frameWidth: number,
+  frameHeight: number,
+  sourceWidth: number,
+  sourceHeight: number
+): Rect => {
+  if (sourceWidth <= 0 || sourceHeight <= 0) {
+    return { x: 0, y: 0, width: frameWidth, height: frameHeight };
+  }
+
+  const scale = Math.min(frameWidth / sourceWidth, frameHeight / sourceHeight);
+  const width = toEven(sourceWidth * scale);
+  const height = toEven(sourceHeight * scale);
+
+  return {
+    x: Math.round((frameWidth - width) / 2),
+    y: Math.round((frameHeight - height) / 2),
+    width,
+    height,
+  };
+};
+
+// The box an overlay is scaled to fit inside
+export const getOverlayBox = (frameWidth: number, frameHeight: number): Rect => {
+  const width = toEven(frameWidth * OVERLAY_SCALE);
+  const height = toEven(frameHeight * OVERLAY_SCALE);
+  const margin = getOverlayMargin(frameWidth);
+
+  return {
+    x: frameWidth - width - margin,
+    y: frameHeight - height - margin,
+    width,
+    height,
+  };
+};
+
+// Where an overlay of the given source size lands once fitted into the overlay box
+export const getOverlayRect = (
+  frameWidth: number,
+  frameHeight: number,
+  sourceWidth: number,
+  sourceHeight: number
+): Rect => {
+  const box = getOverlayBox(frameWidth, frameHeight);
+  if (sourceWidth <= 0 || sourceHeight <= 0) {
+    return box;
+  }
+
+  const scale = Math.min(box.width / sourceWidth, box.height / sourceHeight);
+  const width = toEven(sourceWidth * scale);
+  const height = toEven(sourceHeight * scale);
+  const margin = getOverlayMargin(frameWidth);
+
+  return {
+    x: frameWidth - width - margin,
+    y: frameHeight - height - margin,
+    width,
+    height,
+  };
+};
+
+// Transitions blend a clip into the one before it on the same track. The transition is stored on
+// the incoming clip, which starts `duration` seconds before the outgoing clip ends (they overlap).
+export type TransitionType = 'crossfade' | 'dipToBlack' | 'wipe' | 'slide';
+
+export interface ClipTransition {
+  type: TransitionType;
+  duration: number;
+}
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  crossfade: 'Crossfade',
+  dipToBlack: 'Dip to Black',
+  wipe: 'Wipe',
+  slide: 'Slide',
+};
+
+// Slack when matching clip edges, so float rounding from snapping and trimming still lines up
+export const EDGE_TOLERANCE = 0.01;
+
+interface TransitionCandidate {
+  track: number;
+  startTime: number;
+  duration: number;
+  transition?: ClipTransition;
+}
+
+// The clip a transitioning clip blends out of: same track, ending exactly where the overlap ends
+export const getTransitionPartner = <T extends TransitionCandidate>(clip: T, clips: T[]): T | undefined => {
+  if (!clip.transition) return undefined;
+
+  const overlapEnd = clip.startTime + clip.transition.duration;
+  return clips.find(
+    (other) =>
+      other !== clip &&
+      other.track === clip.track &&
+      other.startTime < clip.startTime &&
+      Math.abs(other.startTime + other.duration - overlapEnd) < EDGE_TOLERANCE
+  );
+};
@@ -0,0 +1,35 @@
+/**
+ * ClipForge - Export Settings
+ *
+ * The export settings and presets the renderer's export dialog edits and the
+ * main process renders with, shared so both sides agree on their shape and
+ * defaults.
+ */
+
+export type ExportResolution = '720p' | '1080p' | '2160p' | 'source';
+export type ExportFormat = 'mp4-h264' | 'mp4-h265' | 'webm-vp9' | 'mov-prores';
+
+export interface ExportSettings {
+  resolution: ExportResolution;
+  orientation: 'landscape' | 'portrait';
+  frameRate: number;
+  format: ExportFormat;
+  // Constant-quality levels, or a fixed video bitrate (kbps) when 'bitrate'
+  quality: 'high' | 'medium' | 'low' | 'bitrate';
+  videoBitrate: number;
+}
+
+export interface ExportPreset {
+  name: string;
+  builtIn?: boolean;
+  settings: ExportSettings;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  resolution: '1080p',
+  orientation: 'landscape',
+  frameRate: 30,
+  format: 'mp4-h264',
+  quality: 'medium',
+  videoBitrate: 8000,
+};
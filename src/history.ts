@@ -0,0 +1,98 @@
+/**
+ * ClipForge - Edit History
+ *
+ * Command-based undo/redo stack used by the timeline editor.
+ */
+
+export interface EditCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+export interface HistoryEntry {
+  label: string;
+  applied: boolean;
+}
+
+export class EditHistory {
+  private commands: EditCommand[] = [];
+  // Number of commands currently applied (commands[position] is the next redo)
+  private position = 0;
+
+  constructor(private onChange: () => void, private limit = 100) {}
+
+  // Record a command whose effect has already been applied
+  push(command: EditCommand) {
+    // Recording a new edit discards anything that was undone
+    this.commands.splice(this.position);
+    this.commands.push(command);
+
+    if (this.commands.length > this.limit) {
+      this.commands.shift();
+    }
+
+    this.position = this.commands.length;
+    this.onChange();
+  }
+
+  undo(): boolean {
+    if (!this.canUndo()) return false;
+
+    this.position--;
+    this.commands[this.position].undo();
+    this.onChange();
+    return true;
+  }
+
+  redo(): boolean {
+    if (!this.canRedo()) return false;
+
+    this.commands[this.position].redo();
+    this.position++;
+    this.onChange();
+    return true;
+  }
+
+  // Undo or redo until exactly `position` commands are applied
+  jumpTo(position: number) {
+    const target = Math.max(0, Math.min(this.commands.length, position));
+
+    while (this.position > target) {
+      this.position--;
+      this.commands[this.position].undo();
+    }
+
+    while (this.position < target) {
+      this.commands[this.position].redo();
+      this.position++;
+    }
+
+    this.onChange();
+  }
+
+  clear() {
+    this.commands = [];
+    this.position = 0;
+    this.onChange();
+  }
+
+  canUndo(): boolean {
+    return this.position > 0;
+  }
+
+  canRedo(): boolean {
+    return this.position < this.commands.length;
+  }
+
+  getPosition(): number {
+    return this.position;
+  }
+
+  getEntries(): HistoryEntry[] {
+    return this.commands.map((command, index) => ({
+      label: command.label,
+      applied: index < this.position,
+    }));
+  }
+}
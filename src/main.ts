@@ -1,14 +1,38 @@
-import { app, BrowserWindow, ipcMain, dialog, protocol, desktopCapturer } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, protocol, desktopCapturer, globalShortcut, Menu, shell } from 'electron';
 import path from 'node:path';
+import { spawn, ChildProcess } from 'node:child_process';
+import { createHash } from 'node:crypto';
 import fs from 'node:fs';
 import started from 'electron-squirrel-startup';
 import ffmpeg from 'fluent-ffmpeg';
+import { getOutputSize, isAudioTrack } from './composition';
+import { DEFAULT_EXPORT_SETTINGS, ExportFormat, ExportPreset, ExportSettings } from './exportSettings';
+import { buildRenderArgs, RenderClip, RenderFrame } from './renderGraph';
+import { DEFAULT_IMAGE_DURATION, sliceMotion } from './stillImage';
+import type {
+  DroppedFiles,
+  ExportClip,
+  ExportOptions,
+  ExportProgress,
+  ExportRange,
+  Filmstrip,
+  ProjectData,
+  ProjectFile,
+  RecordingFormat,
+  RecoverySnapshot,
+  VideoClip,
+  WaveformData,
+} from './preload';
 
 // Set FFmpeg and FFprobe paths
 // Handle both development and packaged scenarios
+// The export renderer spawns ffmpeg directly, so it needs the binary path too
+let ffmpegBinaryPath = 'ffmpeg';
+
 if (app.isPackaged) {
   // In packaged app, binaries are in extraResources
   const ffmpegPath = path.join(process.resourcesPath, 'ffmpeg-static', 'ffmpeg');
+  ffmpegBinaryPath = ffmpegPath;
   const ffprobePath = path.join(process.resourcesPath, 'ffprobe-static', 'bin', 'darwin', 'arm64', 'ffprobe');
 
   ffmpeg.setFfmpegPath(ffmpegPath);
@@ -21,6 +45,7 @@ if (app.isPackaged) {
   const ffprobeStatic = require('ffprobe-static');
 
   if (ffmpegStatic) {
+    ffmpegBinaryPath = ffmpegStatic;
     ffmpeg.setFfmpegPath(ffmpegStatic);
     console.log('FFmpeg path set to:', ffmpegStatic);
   }
@@ -45,6 +70,12 @@ protocol.registerSchemesAsPrivileged([
   },
 ]);
 
+// System audio in screen recordings: Chromium captures desktop audio on Windows out of the box,
+// on Linux only through the PulseAudio (or PipeWire-Pulse) monitor once this feature is on
+if (process.platform === 'linux') {
+  app.commandLine.appendSwitch('enable-features', 'PulseaudioLoopbackForScreenShare');
+}
+
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (started) {
   app.quit();
@@ -78,6 +109,61 @@ const createWindow = () => {
   if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
     mainWindow.webContents.openDevTools();
   }
+
+  // A crashed or reloaded renderer has lost its in-memory session, so offer recovery on its next load
+  let hasStartedLoading = false;
+  mainWindow.webContents.on('did-start-loading', () => {
+    if (hasStartedLoading) {
+      recoveryPending = true;
+    }
+    hasStartedLoading = true;
+  });
+
+  mainWindow.webContents.on('render-process-gone', (_event, details) => {
+    console.error('Renderer process gone:', details.reason);
+    recoveryPending = true;
+  });
+};
+
+// Forward a menu command to the focused window's renderer
+const sendMenuAction = (action: string) => {
+  const window = BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  window?.webContents.send('menu:action', action);
+};
+
+const buildApplicationMenu = () => {
+  const isMac = process.platform === 'darwin';
+  const template: Electron.MenuItemConstructorOptions[] = [
+    ...(isMac ? [{ role: 'appMenu' as const }] : []),
+    {
+      label: 'File',
+      submenu: [
+        { label: 'New Project', accelerator: 'CmdOrCtrl+N', click: () => sendMenuAction('new') },
+        { label: 'Open Project...', accelerator: 'CmdOrCtrl+O', click: () => sendMenuAction('open') },
+        { type: 'separator' },
+        { label: 'Save', accelerator: 'CmdOrCtrl+S', click: () => sendMenuAction('save') },
+        { label: 'Save As...', accelerator: 'Shift+CmdOrCtrl+S', click: () => sendMenuAction('saveAs') },
+        { type: 'separator' },
+        isMac ? { role: 'close' } : { role: 'quit' },
+      ],
+    },
+    {
+      label: 'Edit',
+      submenu: [
+        { label: 'Undo', accelerator: 'CmdOrCtrl+Z', click: () => sendMenuAction('undo') },
+        { label: 'Redo', accelerator: 'Shift+CmdOrCtrl+Z', click: () => sendMenuAction('redo') },
+        { type: 'separator' },
+        { role: 'cut' },
+        { role: 'copy' },
+        { role: 'paste' },
+        { role: 'selectAll' },
+      ],
+    },
+    { role: 'viewMenu' },
+    { role: 'windowMenu' },
+  ];
+
+  return Menu.buildFromTemplate(template);
 };
 
 // Register custom protocol to serve local video files
@@ -94,9 +180,17 @@ app.whenReady().then(() => {
     }
   });
 
+  beginSession();
+  Menu.setApplicationMenu(buildApplicationMenu());
   createWindow();
 });
 
+// A clean quit removes the session lock, so a lock left behind means the last session crashed
+app.on('will-quit', () => {
+  endSession();
+  globalShortcut.unregisterAll();
+});
+
 // Quit when all windows are closed, except on macOS. There, it's common
 // for applications and their menu bar to stay active until the user quits
 // explicitly with Cmd + Q.
@@ -119,13 +213,35 @@ app.on('activate', () => {
 
 // IPC Handlers
 
+const VIDEO_EXTENSIONS = ['mp4', 'mov', 'avi', 'mkv', 'webm'];
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'm4a', 'aac', 'flac'];
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'svg'];
+
+const MEDIA_EXTENSIONS = [...VIDEO_EXTENSIONS, ...AUDIO_EXTENSIONS, ...IMAGE_EXTENSIONS];
+
+const getExtension = (filePath: string) => path.extname(filePath).slice(1).toLowerCase();
+const isImageFile = (filePath: string) => IMAGE_EXTENSIONS.includes(getExtension(filePath));
+
+// Video Chromium plays smoothly; anything bigger or in another codec or container is previewed through a proxy
+const PREVIEW_VIDEO_CODECS = ['h264', 'vp8', 'vp9', 'av1'];
+const PREVIEW_CONTAINERS = ['mp4', 'mov', 'm4v', 'webm'];
+const MAX_PREVIEW_PIXELS = 1920 * 1080;
+
+const needsProxy = (filePath: string, stream: ffmpeg.FfprobeStream): boolean =>
+  (stream.width ?? 0) * (stream.height ?? 0) > MAX_PREVIEW_PIXELS ||
+  !PREVIEW_VIDEO_CODECS.includes(stream.codec_name ?? '') ||
+  !PREVIEW_CONTAINERS.includes(getExtension(filePath));
+
 // File selection dialog
 ipcMain.handle('dialog:selectVideoFiles', async () => {
   console.log('Opening file dialog...');
   const result = await dialog.showOpenDialog({
     properties: ['openFile', 'multiSelections'],
     filters: [
-      { name: 'Videos', extensions: ['mp4', 'mov', 'avi', 'mkv', 'webm'] },
+      { name: 'Media', extensions: MEDIA_EXTENSIONS },
+      { name: 'Videos', extensions: VIDEO_EXTENSIONS },
+      { name: 'Audio', extensions: AUDIO_EXTENSIONS },
+      { name: 'Images', extensions: IMAGE_EXTENSIONS },
     ],
   });
 
@@ -138,10 +254,123 @@ ipcMain.handle('dialog:selectVideoFiles', async () => {
   return result.filePaths;
 });
 
+// Files and folders dropped from the OS: folders are searched recursively, and anything that isn't
+// importable media is handed back so the renderer can report it (hidden files are skipped silently)
+ipcMain.handle('media:expandPaths', async (_event, paths: string[]): Promise<DroppedFiles> => {
+  const result: DroppedFiles = { files: [], unsupported: [] };
+
+  const visit = (filePath: string) => {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(filePath);
+    } catch {
+      result.unsupported.push(filePath);
+      return;
+    }
+
+    if (stats.isDirectory()) {
+      fs.readdirSync(filePath)
+        .filter((name) => !name.startsWith('.'))
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+        .forEach((name) => visit(path.join(filePath, name)));
+    } else if (MEDIA_EXTENSIONS.includes(getExtension(filePath))) {
+      result.files.push(filePath);
+    } else {
+      result.unsupported.push(filePath);
+    }
+  };
+
+  paths.forEach(visit);
+  return result;
+});
+
+// Pixel size of an image ffmpeg can decode
+const probeImageSize = (filePath: string): Promise<{ width: number; height: number }> => {
+  return new Promise((resolveProbe, rejectProbe) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      const stream = metadata?.streams.find((s) => s.codec_type === 'video');
+      if (err || !stream?.width || !stream?.height) {
+        rejectProbe(err ?? new Error(`Unreadable image: ${filePath}`));
+        return;
+      }
+      resolveProbe({ width: stream.width, height: stream.height });
+    });
+  });
+};
+
+// SVGs declare their size in width/height attributes (in px) or, failing that, their viewBox
+const getSvgSize = (filePath: string): { width: number; height: number } => {
+  const tag = /<svg\b[^>]*>/i.exec(fs.readFileSync(filePath, 'utf8'))?.[0] ?? '';
+  const attribute = (name: string) => parseFloat(new RegExp(`\\s${name}\\s*=\\s*["']([\\d.]+)(?:px)?["']`, 'i').exec(tag)?.[1] ?? '');
+
+  const width = attribute('width');
+  const height = attribute('height');
+  if (width > 0 && height > 0) {
+    return { width, height };
+  }
+
+  const viewBox = /\sviewBox\s*=\s*["']([^"']+)["']/i.exec(tag)?.[1].trim().split(/[\s,]+/).map(Number) ?? [];
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: viewBox[2], height: viewBox[3] };
+  }
+
+  // The size browsers give an SVG that doesn't state one
+  return { width: 300, height: 150 };
+};
+
+const getImageMetadata = async (filePath: string): Promise<VideoClip> => {
+  const { width, height } = getExtension(filePath) === 'svg'
+    ? getSvgSize(filePath)
+    : await probeImageSize(filePath);
+
+  return {
+    id: Date.now().toString() + Math.random().toString(36).substring(7),
+    name: path.basename(filePath),
+    path: filePath,
+    kind: 'image',
+    duration: DEFAULT_IMAGE_DURATION,
+    width: Math.round(width),
+    height: Math.round(height),
+    size: fs.statSync(filePath).size,
+  };
+};
+
+// Frame rate from an ffprobe rational such as "30000/1001" (0 when unknown)
+const parseFrameRate = (rate?: string): number => {
+  const [numerator, denominator = 1] = (rate ?? '').split('/').map(Number);
+  return numerator > 0 && denominator > 0 ? numerator / denominator : 0;
+};
+
+// Clockwise rotation players apply, from the display matrix (counterclockwise) or the older rotate tag
+const getRotation = (stream: ffmpeg.FfprobeStream): number => {
+  const degrees = stream.tags?.rotate !== undefined ? Number(stream.tags.rotate) : -Number(stream.rotation ?? 0);
+  return Number.isFinite(degrees) ? ((Math.round(degrees) % 360) + 360) % 360 : 0;
+};
+
+// Size as shown: players and ffmpeg both apply the rotation, so quarter turns swap width and height
+const getDisplaySize = (stream: ffmpeg.FfprobeStream): { width: number; height: number } => {
+  const width = stream.width || 0;
+  const height = stream.height || 0;
+  return getRotation(stream) % 180 === 90 ? { width: height, height: width } : { width, height };
+};
+
+// Phones record variable frame rate; ffprobe then reports an average rate that differs from the base rate
+const VFR_TOLERANCE = 0.01;
+
+const isVariableFrameRate = (stream: ffmpeg.FfprobeStream): boolean => {
+  const baseRate = parseFrameRate(stream.r_frame_rate);
+  const averageRate = parseFrameRate(stream.avg_frame_rate);
+  return baseRate > 0 && averageRate > 0 && Math.abs(baseRate - averageRate) / baseRate > VFR_TOLERANCE;
+};
+
 // Get video metadata
 ipcMain.handle('video:getMetadata', async (_event, filePath: string) => {
   console.log('Getting metadata for:', filePath);
 
+  if (isImageFile(filePath)) {
+    return getImageMetadata(filePath);
+  }
+
   return new Promise((resolve, reject) => {
     ffmpeg.ffprobe(filePath, (err, metadata) => {
       if (err) {
@@ -151,17 +380,37 @@ ipcMain.handle('video:getMetadata', async (_event, filePath: string) => {
       }
 
       try {
-        const videoStream = metadata.streams.find((s) => s.codec_type === 'video');
+        // Album art in audio files shows up as a single-frame video stream; it isn't video
+        const videoStream = metadata.streams.find((s) => s.codec_type === 'video' && !s.disposition?.attached_pic);
+        const audioStream = metadata.streams.find((s) => s.codec_type === 'audio');
+        if (!videoStream && !audioStream) {
+          throw new Error('The file has no video or audio');
+        }
         const stats = fs.statSync(filePath);
+        const { width, height } = videoStream ? getDisplaySize(videoStream) : { width: 0, height: 0 };
+        const creationTime = metadata.format.tags?.creation_time ?? videoStream?.tags?.creation_time;
 
-        const result = {
+        const result: VideoClip = {
           id: Date.now().toString() + Math.random().toString(36).substring(7),
           name: path.basename(filePath),
           path: filePath,
+          kind: videoStream ? 'video' : 'audio',
           duration: metadata.format.duration || 0,
-          width: videoStream?.width || 0,
-          height: videoStream?.height || 0,
+          width,
+          height,
           size: stats.size,
+          sampleRate: audioStream?.sample_rate,
+          channels: audioStream?.channels,
+          needsProxy: videoStream ? needsProxy(filePath, videoStream) : false,
+          hasAudio: Boolean(audioStream),
+          frameRate: videoStream ? parseFrameRate(videoStream.avg_frame_rate) || parseFrameRate(videoStream.r_frame_rate) : undefined,
+          variableFrameRate: videoStream ? isVariableFrameRate(videoStream) : undefined,
+          videoCodec: videoStream?.codec_name,
+          audioCodec: audioStream?.codec_name,
+          bitrate: Number(metadata.format.bit_rate) || undefined,
+          pixelFormat: videoStream?.pix_fmt,
+          rotation: videoStream ? getRotation(videoStream) : undefined,
+          creationTime: creationTime !== undefined ? String(creationTime) : undefined,
         };
 
         console.log('Metadata result:', result);
@@ -174,174 +423,693 @@ ipcMain.handle('video:getMetadata', async (_event, filePath: string) => {
   });
 });
 
+// Export helpers
+
+// The export in progress; only one runs at a time
+interface ExportJob {
+  cancelled: boolean;
+  processes: Set<ChildProcess>;
+}
+
+let exportJob: ExportJob | null = null;
+
+const EXPORT_CANCELLED_MESSAGE = 'Export cancelled';
+
+// Run ffmpeg with the given arguments as part of `job`, reporting percent of `duration` rendered
+const runRender = (
+  args: string[],
+  duration: number,
+  job: ExportJob,
+  onProgress: (percent: number) => void
+): Promise<void> => {
+  return new Promise((resolveRender, rejectRender) => {
+    if (job.cancelled) {
+      rejectRender(new Error(EXPORT_CANCELLED_MESSAGE));
+      return;
+    }
+
+    // -progress writes key=value lines to stdout; stderr is kept only for error messages
+    const child = spawn(ffmpegBinaryPath, ['-y', '-hide_banner', '-nostats', '-progress', 'pipe:1', ...args]);
+    job.processes.add(child);
+
+    let progressBuffer = '';
+    let stderrTail = '';
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      progressBuffer += chunk.toString();
+      const lines = progressBuffer.split('\n');
+      progressBuffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        // out_time_us (and the misnamed out_time_ms) are both microseconds
+        const match = /^out_time_(?:us|ms)=(\d+)/.exec(line.trim());
+        if (match && duration > 0) {
+          onProgress(Math.min(100, (parseInt(match[1], 10) / 1e6 / duration) * 100));
+        }
+      }
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderrTail = (stderrTail + chunk.toString()).slice(-2000);
+    });
+
+    child.on('error', (err) => {
+      job.processes.delete(child);
+      rejectRender(err);
+    });
+
+    child.on('close', (code, signal) => {
+      job.processes.delete(child);
+      if (code === 0) {
+        resolveRender();
+      } else if (job.cancelled) {
+        rejectRender(new Error(EXPORT_CANCELLED_MESSAGE));
+      } else {
+        const lastLine = stderrTail.trim().split('\n').pop();
+        rejectRender(new Error(`ffmpeg exited with ${signal ?? `code ${code}`}: ${lastLine ?? 'unknown error'}`));
+      }
+    });
+  });
+};
+
+const EXPORT_FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  'mp4-h264': 'mp4',
+  'mp4-h265': 'mp4',
+  'webm-vp9': 'webm',
+  'mov-prores': 'mov',
+};
+
+// CRF per quality level; each codec has its own scale
+const QUALITY_CRF: Record<'mp4-h264' | 'mp4-h265' | 'webm-vp9', Record<'high' | 'medium' | 'low', number>> = {
+  'mp4-h264': { high: 18, medium: 23, low: 28 },
+  'mp4-h265': { high: 22, medium: 26, low: 30 },
+  'webm-vp9': { high: 24, medium: 31, low: 38 },
+};
+
+// Final encoder arguments for the chosen container/codec and quality
+const getEncoderOptions = (settings: ExportSettings): string[] => {
+  if (settings.format === 'mov-prores') {
+    // ProRes is intra-frame with a fixed bitrate per profile; 3 = ProRes 422 HQ
+    return ['-c:v', 'prores_ks', '-profile:v', '3', '-pix_fmt', 'yuv422p10le', '-c:a', 'pcm_s16le'];
+  }
+
+  const rateControl = settings.quality === 'bitrate'
+    ? ['-b:v', `${settings.videoBitrate}k`]
+    : ['-crf', QUALITY_CRF[settings.format][settings.quality].toString()];
+
+  switch (settings.format) {
+    case 'mp4-h265':
+      return [
+        '-c:v', 'libx265', '-preset', 'medium', ...rateControl, '-tag:v', 'hvc1', '-pix_fmt', 'yuv420p',
+        '-c:a', 'aac', '-b:a', '192k', '-movflags', '+faststart',
+      ];
+    case 'webm-vp9':
+      // Constant-quality VP9 needs an explicit zero target bitrate
+      return [
+        '-c:v', 'libvpx-vp9', '-deadline', 'good', '-cpu-used', '4', '-row-mt', '1',
+        ...(settings.quality === 'bitrate' ? rateControl : [...rateControl, '-b:v', '0']),
+        '-pix_fmt', 'yuv420p', '-c:a', 'libopus', '-b:a', '160k',
+      ];
+    default:
+      return [
+        '-c:v', 'libx264', '-preset', 'medium', ...rateControl, '-pix_fmt', 'yuv420p',
+        '-c:a', 'aac', '-b:a', '192k', '-movflags', '+faststart',
+      ];
+  }
+};
+
+// Resolve the export frame; 'source' resolution follows the first base-track video clip
+const getOutputFrame = async (settings: ExportSettings, firstClip?: ExportClip): Promise<RenderFrame> => {
+  let sourceWidth = 0;
+  let sourceHeight = 0;
+
+  if (settings.resolution === 'source' && firstClip) {
+    const metadata = await new Promise<ffmpeg.FfprobeData | null>((resolveProbe) => {
+      ffmpeg.ffprobe(firstClip.clipId, (err, data) => resolveProbe(err ? null : data));
+    });
+    const videoStream = metadata?.streams.find((s) => s.codec_type === 'video');
+    if (videoStream) {
+      ({ width: sourceWidth, height: sourceHeight } = getDisplaySize(videoStream));
+    }
+  }
+
+  return {
+    ...getOutputSize(settings.resolution, settings.orientation, sourceWidth, sourceHeight),
+    frameRate: settings.frameRate,
+  };
+};
+
+// Cut the timeline down to an in/out range, re-basing clip positions on the range start
+const clipToRange = (clips: ExportClip[], range: ExportRange): ExportClip[] => {
+  return clips
+    .filter((clip) => clip.startTime < range.end && clip.startTime + clip.duration > range.start)
+    .map((clip) => {
+      const start = Math.max(clip.startTime, range.start);
+      const end = Math.min(clip.startTime + clip.duration, range.end);
+      const trimStart = clip.trimStart + (start - clip.startTime);
+
+      return {
+        ...clip,
+        startTime: start - range.start,
+        duration: end - start,
+        trimStart,
+        trimEnd: trimStart + (end - start),
+        // A transition whose start falls before the range can't be rendered
+        transition: start > clip.startTime ? undefined : clip.transition,
+        // Pan/zoom picks up where it is at the cut
+        motion:
+          clip.motion &&
+          sliceMotion(clip.motion, (start - clip.startTime) / clip.duration, (end - clip.startTime) / clip.duration),
+      };
+    });
+};
+
+const probeHasAudio = (filePath: string): Promise<boolean> => {
+  return new Promise((resolveProbe) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      resolveProbe(!err && metadata.streams.some((s) => s.codec_type === 'audio'));
+    });
+  });
+};
+
 // Export video
-ipcMain.handle('video:export', async (event, options) => {
-  let { outputPath, clips } = options;
+ipcMain.handle('video:export', async (event, options: ExportOptions) => {
+  if (exportJob) {
+    throw new Error('An export is already running');
+  }
+
+  let { outputPath } = options;
+  const { range } = options;
+  const settings = options.settings ?? DEFAULT_EXPORT_SETTINGS;
+  let clips: ExportClip[] = options.clips;
 
   // Generate output path if not provided
   if (!outputPath) {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const desktopPath = app.getPath('desktop');
-    outputPath = path.join(desktopPath, `ClipForge-Export-${timestamp}.mp4`);
+    outputPath = path.join(desktopPath, `ClipForge-Export-${timestamp}.${EXPORT_FORMAT_EXTENSIONS[settings.format]}`);
   }
 
-  console.log('Exporting to:', outputPath);
+  console.log('Exporting to:', outputPath, settings);
 
-  return new Promise(async (resolve, reject) => {
-    if (clips.length === 0) {
-      reject(new Error('No clips to export'));
-      return;
+  if (range) {
+    clips = clipToRange(clips, range);
+  }
+
+  // A range that only covers gaps still exports, as black
+  if (clips.length === 0 && !range) {
+    throw new Error('No clips to export');
+  }
+
+  // The output spans the whole timeline (or range), including leading and trailing gaps
+  const timelineEnd = Math.max(0, ...clips.map((clip) => clip.startTime + clip.duration));
+  const totalDuration = range ? range.end - range.start : Math.max(options.duration || 0, timelineEnd);
+
+  // Sort clips by track and start time
+  const sortedClips = [...clips].sort((a, b) => {
+    if (a.track !== b.track) return a.track - b.track;
+    return a.startTime - b.startTime;
+  });
+
+  const job: ExportJob = { cancelled: false, processes: new Set() };
+  exportJob = job;
+
+  const startedAt = Date.now();
+  const reportProgress = (percent: number, stage: string) => {
+    const clamped = Math.max(0, Math.min(100, percent));
+    const elapsed = (Date.now() - startedAt) / 1000;
+    // Too early to extrapolate until a little work is done
+    const eta = clamped >= 1 ? (elapsed * (100 - clamped)) / clamped : null;
+    const progress: ExportProgress = { percent: clamped, stage, elapsed, eta };
+    event.sender.send('export:progress', progress);
+  };
+
+  // Holds the text clips' and SVGs' pre-rendered images for the duration of the export
+  const tempDir = path.join(app.getPath('temp'), `clipforge-${Date.now()}`);
+
+  try {
+    reportProgress(0, 'Analyzing clips');
+    const frame = await getOutputFrame(settings, sortedClips.find((clip) => !clip.text && !isAudioTrack(clip.track)));
+
+    // Clips without audio get generated silence, so the graph needs to know which have it.
+    // Media imported before this was part of its metadata is probed.
+    const audioByPath = new Map<string, boolean>();
+    for (const clip of sortedClips) {
+      if (!clip.text && !isImageFile(clip.clipId) && !audioByPath.has(clip.clipId)) {
+        audioByPath.set(clip.clipId, clip.hasAudio ?? (await probeHasAudio(clip.clipId)));
+      }
     }
 
-    try {
-      // Sort clips by track and start time
-      const sortedClips = [...clips].sort((a, b) => {
-        if (a.track !== b.track) return a.track - b.track;
-        return a.startTime - b.startTime;
-      });
-
-      // Single-pass export using filter_complex for better performance
-      if (sortedClips.length === 1) {
-        // Single clip export with trim
-        const clip = sortedClips[0];
-        const command = ffmpeg();
-
-        command
-          .input(clip.clipId)
-          .setStartTime(clip.trimStart)
-          .setDuration(clip.duration)
-          .output(outputPath)
-          .videoCodec('libx264')
-          .audioCodec('aac')
-          .on('progress', (progress) => {
-            event.sender.send('export:progress', progress.percent || 0);
-          })
-          .on('end', () => {
-            event.sender.send('export:complete', outputPath);
-            resolve(null);
-          })
-          .on('error', (err) => {
-            event.sender.send('export:error', err.message);
-            reject(err);
-          })
-          .run();
-      } else {
-        // Multi-clip export: Fast two-pass with ultrafast preset
-        const tempDir = path.join(app.getPath('temp'), `clipforge-${Date.now()}`);
+    // Still images are looped from their file (or the rasterized copy of an SVG); pan/zoom needs their size
+    const stillImages = new Map<ExportClip, { path: string; width: number; height: number }>();
+    for (const [index, clip] of sortedClips.entries()) {
+      if (clip.text || !isImageFile(clip.clipId)) continue;
+
+      let imagePath = clip.clipId;
+      if (clip.image) {
         fs.mkdirSync(tempDir, { recursive: true });
+        imagePath = path.join(tempDir, `image-${index}.png`);
+        fs.writeFileSync(imagePath, Buffer.from(clip.image));
+      }
+      stillImages.set(clip, { path: imagePath, ...(await probeImageSize(imagePath)) });
+    }
 
-        const tempFiles: string[] = [];
-        let processedCount = 0;
-        const totalClips = sortedClips.length;
-
-        const processClip = (clip: any, index: number): Promise<string> => {
-          return new Promise((resolveClip, rejectClip) => {
-            const tempFile = path.join(tempDir, `clip-${index}.mp4`);
-            tempFiles.push(tempFile);
-
-            // First check if clip has audio and get video properties
-            ffmpeg.ffprobe(clip.clipId, (err, metadata) => {
-              const hasAudio = !err && metadata.streams.some((s) => s.codec_type === 'audio');
-              const videoStream = metadata.streams.find((s) => s.codec_type === 'video');
-              const width = videoStream?.width || 1920;
-              const height = videoStream?.height || 1080;
-
-              const cmd = ffmpeg()
-                .input(clip.clipId)
-                .setStartTime(clip.trimStart)
-                .setDuration(clip.duration);
-
-              if (!hasAudio) {
-                // Add silent audio source for video-only clips (matching normalized properties)
-                cmd
-                  .input('anullsrc=channel_layout=stereo:sample_rate=44100')
-                  .inputFormat('lavfi')
-                  .inputOptions(['-t', clip.duration.toString()]);
-              }
-
-              cmd
-                .output(tempFile)
-                .videoCodec('libx264')
-                .audioCodec('aac')
-                // Normalize to exactly 1920x1080 (maintain aspect ratio, add black bars if needed)
-                .videoFilters([
-                  'scale=1920:1080:force_original_aspect_ratio=decrease',
-                  'pad=1920:1080:(ow-iw)/2:(oh-ih)/2'
-                ])
-                .outputOptions([
-                  '-preset ultrafast',
-                  '-crf 23',
-                  // Normalize audio properties for reliable concatenation
-                  '-ar 44100',           // Sample rate: 44.1kHz
-                  '-ac 2',               // Stereo channels
-                  '-b:a 128k',           // Audio bitrate: 128kbps
-                  // Normalize video properties
-                  '-pix_fmt yuv420p',    // Pixel format
-                  '-r 30',               // Frame rate: 30fps
-                  '-movflags +faststart' // Optimize for streaming
-                ])
-                .on('end', () => {
-                  processedCount++;
-                  const progress = (processedCount / totalClips) * 80; // First 80% is processing
-                  event.sender.send('export:progress', progress);
-                  resolveClip(tempFile);
-                })
-                .on('error', (err) => rejectClip(err));
-
-              cmd.run();
-            });
-          });
+    const renderClips: RenderClip[] = sortedClips.map((clip, index) => {
+      if (clip.text) {
+        if (!clip.image) {
+          throw new Error('Text clip was sent without its rendered image');
+        }
+        fs.mkdirSync(tempDir, { recursive: true });
+        const imagePath = path.join(tempDir, `text-${index}.png`);
+        fs.writeFileSync(imagePath, Buffer.from(clip.image));
+
+        return {
+          path: imagePath,
+          track: clip.track,
+          startTime: clip.startTime,
+          duration: clip.duration,
+          trimStart: 0,
+          hasAudio: false,
+          text: { animation: clip.text.animation },
         };
+      }
 
-        // Process all clips
-        const processedFiles = await Promise.all(
-          sortedClips.map((clip, idx) => processClip(clip, idx))
-        );
-
-        // Create concat list file
-        const concatListPath = path.join(tempDir, 'concat.txt');
-        const concatList = processedFiles.map((f) => `file '${f}'`).join('\n');
-        fs.writeFileSync(concatListPath, concatList);
-
-        // Concatenate all clips - this is fast with -c copy
-        ffmpeg()
-          .input(concatListPath)
-          .inputOptions(['-f concat', '-safe 0'])
-          .outputOptions(['-c copy'])
-          .output(outputPath)
-          .on('progress', (progress) => {
-            const finalProgress = 80 + (progress.percent || 0) * 0.2; // Last 20% is concat
-            event.sender.send('export:progress', finalProgress);
-          })
-          .on('end', () => {
-            // Cleanup temp files
-            tempFiles.forEach((f) => {
-              try {
-                fs.unlinkSync(f);
-              } catch (e) {
-                /* ignore */
-              }
-            });
-            try {
-              fs.unlinkSync(concatListPath);
-              fs.rmdirSync(tempDir);
-            } catch (e) {
-              /* ignore */
-            }
-
-            event.sender.send('export:complete', outputPath);
-            resolve(null);
-          })
-          .on('error', (err) => {
-            event.sender.send('export:error', err.message);
-            reject(err);
-          })
-          .run();
+      const still = stillImages.get(clip);
+      if (still) {
+        return {
+          path: still.path,
+          track: clip.track,
+          startTime: clip.startTime,
+          duration: clip.duration,
+          trimStart: 0,
+          hasAudio: false,
+          transition: clip.transition,
+          color: clip.color,
+          image: { width: still.width, height: still.height, motion: clip.motion },
+        };
       }
-    } catch (err) {
-      event.sender.send('export:error', (err as Error).message);
-      reject(err);
+
+      return {
+        path: clip.clipId,
+        track: clip.track,
+        startTime: clip.startTime,
+        duration: clip.duration,
+        trimStart: clip.trimStart,
+        hasAudio: audioByPath.get(clip.clipId) ?? false,
+        transition: clip.transition,
+        color: clip.color,
+        audio: clip.audio,
+      };
+    });
+
+    // One ffmpeg process renders the whole timeline: no intermediate video files
+    const args = buildRenderArgs(renderClips, frame, totalDuration, getEncoderOptions(settings), outputPath);
+    await runRender(args, totalDuration, job, (percent) => reportProgress(percent, 'Rendering'));
+
+    reportProgress(100, 'Done');
+    event.sender.send('export:complete', outputPath);
+    return null;
+  } catch (err) {
+    if (job.cancelled) {
+      // Don't leave a truncated file behind
+      fs.rmSync(outputPath, { force: true });
+      event.sender.send('export:cancelled');
+      return null;
     }
+
+    event.sender.send('export:error', (err as Error).message);
+    throw err;
+  } finally {
+    exportJob = null;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+// Cancel the running export: kill the ffmpeg process it started
+ipcMain.handle('export:cancel', async () => {
+  if (!exportJob) return false;
+
+  exportJob.cancelled = true;
+  exportJob.processes.forEach((child) => child.kill('SIGKILL'));
+  return true;
+});
+
+// Show an exported file in Finder / Explorer
+ipcMain.handle('shell:showItemInFolder', async (_event, filePath: string) => {
+  shell.showItemInFolder(filePath);
+});
+
+// Export destination dialog
+ipcMain.handle('dialog:selectExportPath', async (_event, format: ExportFormat) => {
+  const extension = EXPORT_FORMAT_EXTENSIONS[format] || 'mp4';
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+  const result = await dialog.showSaveDialog({
+    defaultPath: path.join(app.getPath('desktop'), `ClipForge-Export-${timestamp}.${extension}`),
+    filters: [{ name: `${extension.toUpperCase()} Video`, extensions: [extension] }],
+  });
+
+  if (result.canceled || !result.filePath) {
+    return null;
+  }
+  return result.filePath;
+});
+
+// Export presets: built-ins plus user presets stored in the user-data directory
+const BUILT_IN_EXPORT_PRESETS: ExportPreset[] = [
+  {
+    name: 'YouTube 1080p',
+    builtIn: true,
+    settings: { ...DEFAULT_EXPORT_SETTINGS, quality: 'high' },
+  },
+  {
+    name: 'YouTube 4K',
+    builtIn: true,
+    settings: { ...DEFAULT_EXPORT_SETTINGS, resolution: '2160p', quality: 'high' },
+  },
+  {
+    name: 'Instagram Reels',
+    builtIn: true,
+    settings: { ...DEFAULT_EXPORT_SETTINGS, orientation: 'portrait', quality: 'bitrate', videoBitrate: 8000 },
+  },
+  {
+    name: 'TikTok',
+    builtIn: true,
+    settings: { ...DEFAULT_EXPORT_SETTINGS, orientation: 'portrait', quality: 'bitrate', videoBitrate: 6000 },
+  },
+];
+
+const getExportPresetsPath = () => path.join(app.getPath('userData'), 'export-presets.json');
+
+const readUserExportPresets = (): ExportPreset[] => {
+  try {
+    return JSON.parse(fs.readFileSync(getExportPresetsPath(), 'utf-8'));
+  } catch (e) {
+    return [];
+  }
+};
+
+ipcMain.handle('presets:list', async () => {
+  return [...BUILT_IN_EXPORT_PRESETS, ...readUserExportPresets()];
+});
+
+ipcMain.handle('presets:save', async (_event, preset: ExportPreset) => {
+  if (BUILT_IN_EXPORT_PRESETS.some((builtIn) => builtIn.name === preset.name)) {
+    throw new Error(`"${preset.name}" is a built-in preset; choose another name`);
+  }
+
+  // Saving under an existing name replaces that preset
+  const presets = readUserExportPresets().filter((existing) => existing.name !== preset.name);
+  presets.push({ name: preset.name, settings: preset.settings });
+
+  fs.mkdirSync(path.dirname(getExportPresetsPath()), { recursive: true });
+  fs.writeFileSync(getExportPresetsPath(), JSON.stringify(presets, null, 2));
+  return [...BUILT_IN_EXPORT_PRESETS, ...presets];
+});
+
+ipcMain.handle('presets:delete', async (_event, name: string) => {
+  const presets = readUserExportPresets().filter((existing) => existing.name !== name);
+  fs.writeFileSync(getExportPresetsPath(), JSON.stringify(presets, null, 2));
+  return [...BUILT_IN_EXPORT_PRESETS, ...presets];
+});
+
+// Media cache (waveforms and thumbnails)
+
+// Bytes hashed from each end of a file to identify it
+const FILE_HASH_SAMPLE_SIZE = 64 * 1024;
+
+// Identify a file by its size and the content at both ends: cheap even for long recordings, survives
+// moves and renames, and changes when the file is re-encoded or replaced
+const getFileHash = (filePath: string): string => {
+  const { size } = fs.statSync(filePath);
+  const hash = createHash('sha1').update(size.toString());
+  const fd = fs.openSync(filePath, 'r');
+
+  try {
+    const sample = Buffer.alloc(Math.min(FILE_HASH_SAMPLE_SIZE, size));
+    fs.readSync(fd, sample, 0, sample.length, 0);
+    hash.update(sample);
+    fs.readSync(fd, sample, 0, sample.length, Math.max(0, size - sample.length));
+    hash.update(sample);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return hash.digest('hex');
+};
+
+const getMediaCacheDir = (kind: string) => path.join(app.getPath('userData'), kind);
+
+// Extractions in progress by cache path, so concurrent requests for one file share a single ffmpeg run
+const mediaJobs = new Map<string, Promise<unknown>>();
+
+// Importing many files at once queues their extractions instead of starting them all together
+const MAX_CONCURRENT_MEDIA_JOBS = 2;
+let activeMediaJobs = 0;
+const queuedMediaJobs: Array<() => void> = [];
+
+const acquireMediaJobSlot = (): Promise<void> => {
+  return new Promise((resolveSlot) => {
+    if (activeMediaJobs < MAX_CONCURRENT_MEDIA_JOBS) {
+      activeMediaJobs++;
+      resolveSlot();
+    } else {
+      queuedMediaJobs.push(resolveSlot);
+    }
+  });
+};
+
+const releaseMediaJobSlot = () => {
+  const next = queuedMediaJobs.shift();
+  if (next) {
+    next();
+  } else {
+    activeMediaJobs--;
+  }
+};
+
+const runMediaJob = <T>(cachePath: string, job: () => Promise<T>): Promise<T> => {
+  let pending = mediaJobs.get(cachePath) as Promise<T> | undefined;
+  if (!pending) {
+    pending = acquireMediaJobSlot()
+      .then(() => job().finally(releaseMediaJobSlot))
+      .finally(() => mediaJobs.delete(cachePath));
+    mediaJobs.set(cachePath, pending);
+  }
+  return pending;
+};
+
+// Run ffmpeg to completion, rejecting with its last error line
+const runFfmpeg = (args: string[]): Promise<void> => {
+  return new Promise((resolveRun, rejectRun) => {
+    const child = spawn(ffmpegBinaryPath, ['-y', '-hide_banner', '-nostats', '-loglevel', 'error', ...args]);
+    let stderrTail = '';
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderrTail = (stderrTail + chunk.toString()).slice(-2000);
+    });
+    child.on('error', rejectRun);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolveRun();
+      } else {
+        rejectRun(new Error(stderrTail.trim().split('\n').pop() || `ffmpeg exited with code ${code}`));
+      }
+    });
+  });
+};
+
+// Waveforms
+
+// Peaks per second of audio; fine enough to cut on a syllable
+const WAVEFORM_PEAKS_PER_SECOND = 100;
+// Audio is decoded at this rate for peak extraction (speech and music peaks survive it)
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+const getWaveformCachePath = (filePath: string) =>
+  path.join(getMediaCacheDir('waveforms'), `${getFileHash(filePath)}-${WAVEFORM_PEAKS_PER_SECOND}.peaks`);
+
+// Decode to mono 16-bit PCM and keep the loudest sample of each peak window, scaled to 0-255
+const extractWaveformPeaks = (filePath: string): Promise<Uint8Array> => {
+  return new Promise((resolvePeaks, rejectPeaks) => {
+    const samplesPerPeak = WAVEFORM_SAMPLE_RATE / WAVEFORM_PEAKS_PER_SECOND;
+    const peaks: number[] = [];
+    let peak = 0;
+    let sampleCount = 0;
+    let leftover: Buffer | null = null;
+    let stderrTail = '';
+
+    const pushPeak = () => {
+      peaks.push(Math.min(255, Math.round((peak / 32768) * 255)));
+      peak = 0;
+      sampleCount = 0;
+    };
+
+    const child = spawn(ffmpegBinaryPath, [
+      '-hide_banner', '-nostats', '-i', filePath,
+      '-vn', '-ac', '1', '-ar', WAVEFORM_SAMPLE_RATE.toString(), '-f', 's16le', 'pipe:1',
+    ]);
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      // Samples can straddle chunk boundaries
+      const data = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      for (let offset = 0; offset < usable; offset += 2) {
+        peak = Math.max(peak, Math.abs(data.readInt16LE(offset)));
+        if (++sampleCount === samplesPerPeak) pushPeak();
+      }
+      leftover = usable < data.length ? data.subarray(usable) : null;
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderrTail = (stderrTail + chunk.toString()).slice(-2000);
+    });
+
+    child.on('error', rejectPeaks);
+    child.on('close', (code) => {
+      if (code !== 0) {
+        rejectPeaks(new Error(`Waveform extraction failed: ${stderrTail.trim().split('\n').pop()}`));
+        return;
+      }
+      if (sampleCount > 0) pushPeak();
+      resolvePeaks(Uint8Array.from(peaks));
+    });
+  });
+};
+
+ipcMain.handle('media:getWaveform', async (_event, filePath: string): Promise<WaveformData> => {
+  const cachePath = getWaveformCachePath(filePath);
+  if (fs.existsSync(cachePath)) {
+    return { peaksPerSecond: WAVEFORM_PEAKS_PER_SECOND, peaks: new Uint8Array(fs.readFileSync(cachePath)) };
+  }
+
+  return runMediaJob(cachePath, async () => {
+    // Files without audio cache an empty waveform
+    const peaks = (await probeHasAudio(filePath)) ? await extractWaveformPeaks(filePath) : new Uint8Array(0);
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+    fs.writeFileSync(cachePath, peaks);
+    return { peaksPerSecond: WAVEFORM_PEAKS_PER_SECOND, peaks };
+  });
+});
+
+// Thumbnails
+
+// Frame heights; filmstrip frames only need to fill a timeline clip
+const POSTER_HEIGHT = 180;
+const FILMSTRIP_HEIGHT = 90;
+// Filmstrips take a frame a second, spreading out on longer files to stay under this many frames
+const FILMSTRIP_MAX_FRAMES = 120;
+// Where the poster frame is taken, as a fraction of the duration (skips black lead-ins and fades)
+const POSTER_POSITION = 0.1;
+
+const getThumbnailCacheDir = (filePath: string) => path.join(getMediaCacheDir('thumbnails'), getFileHash(filePath));
+
+const probeDuration = (filePath: string): Promise<number> => {
+  return new Promise((resolveProbe, rejectProbe) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) {
+        rejectProbe(err);
+        return;
+      }
+      resolveProbe(metadata.format.duration || 0);
+    });
+  });
+};
+
+ipcMain.handle('media:getPoster', async (_event, filePath: string): Promise<string> => {
+  const posterPath = path.join(getThumbnailCacheDir(filePath), 'poster.jpg');
+  if (fs.existsSync(posterPath)) {
+    return posterPath;
+  }
+
+  return runMediaJob(posterPath, async () => {
+    const duration = await probeDuration(filePath);
+    fs.mkdirSync(path.dirname(posterPath), { recursive: true });
+    await runFfmpeg([
+      '-ss', (duration * POSTER_POSITION).toFixed(3), '-i', filePath,
+      '-frames:v', '1', '-vf', `scale=-2:${POSTER_HEIGHT}`, '-q:v', '4', posterPath,
+    ]);
+    return posterPath;
+  });
+});
+
+ipcMain.handle('media:getFilmstrip', async (_event, filePath: string): Promise<Filmstrip> => {
+  const cacheDir = getThumbnailCacheDir(filePath);
+  const manifestPath = path.join(cacheDir, 'filmstrip.json');
+  const toFilmstrip = (manifest: { interval: number; frameCount: number }): Filmstrip => ({
+    interval: manifest.interval,
+    frames: Array.from({ length: manifest.frameCount }, (_, index) =>
+      path.join(cacheDir, `frame-${String(index + 1).padStart(4, '0')}.jpg`)
+    ),
+  });
+
+  if (fs.existsSync(manifestPath)) {
+    return toFilmstrip(JSON.parse(fs.readFileSync(manifestPath, 'utf-8')));
+  }
+
+  return runMediaJob(manifestPath, async () => {
+    const duration = await probeDuration(filePath);
+    const interval = Math.max(1, duration / FILMSTRIP_MAX_FRAMES);
+    fs.mkdirSync(cacheDir, { recursive: true });
+
+    // One decode pass; frame N (numbered from 1) is the frame nearest (N - 1) * interval
+    await runFfmpeg([
+      '-i', filePath, '-an',
+      '-vf', `fps=1/${interval.toFixed(3)}:round=near,scale=-2:${FILMSTRIP_HEIGHT}`,
+      '-q:v', '5', path.join(cacheDir, 'frame-%04d.jpg'),
+    ]);
+
+    const frameCount = fs.readdirSync(cacheDir).filter((name) => name.startsWith('frame-')).length;
+    // The manifest is written last, so an interrupted extraction is redone next time
+    fs.writeFileSync(manifestPath, JSON.stringify({ interval, frameCount }));
+    return toFilmstrip({ interval, frameCount });
+  });
+});
+
+// Proxies
+
+// Preview copies: H.264 no taller than this, with a keyframe every half second so seeking stays quick
+const PROXY_HEIGHT = 540;
+const PROXY_KEYFRAME_INTERVAL = 0.5;
+
+// Proxies are long transcodes, so they run one at a time, separately from the extraction jobs
+let proxyQueue: Promise<unknown> = Promise.resolve();
+
+const runProxyJob = (proxyPath: string, job: () => Promise<string>): Promise<string> => {
+  let pending = mediaJobs.get(proxyPath) as Promise<string> | undefined;
+  if (!pending) {
+    pending = proxyQueue.then(job).finally(() => mediaJobs.delete(proxyPath));
+    proxyQueue = pending.catch((): void => undefined);
+    mediaJobs.set(proxyPath, pending);
+  }
+  return pending;
+};
+
+// Path of the file's proxy, transcoding it first unless it is already cached
+ipcMain.handle('media:createProxy', async (_event, filePath: string): Promise<string> => {
+  const proxyPath = path.join(getMediaCacheDir('proxies'), `${getFileHash(filePath)}.mp4`);
+  if (fs.existsSync(proxyPath)) {
+    return proxyPath;
+  }
+
+  return runProxyJob(proxyPath, async () => {
+    // Written under a temporary name, so an interrupted transcode is never mistaken for a finished one
+    const partialPath = `${proxyPath}.partial.mp4`;
+    fs.mkdirSync(path.dirname(proxyPath), { recursive: true });
+
+    try {
+      await runFfmpeg([
+        '-i', filePath, '-map', '0:v:0', '-map', '0:a:0?',
+        '-vf', `scale=-2:'min(${PROXY_HEIGHT},ih)'`,
+        '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '26', '-pix_fmt', 'yuv420p',
+        '-force_key_frames', `expr:gte(t,n_forced*${PROXY_KEYFRAME_INTERVAL})`,
+        '-c:a', 'aac', '-b:a', '128k', '-movflags', '+faststart', partialPath,
+      ]);
+      fs.renameSync(partialPath, proxyPath);
+    } finally {
+      fs.rmSync(partialPath, { force: true });
+    }
+    return proxyPath;
   });
 });
 
@@ -375,22 +1143,286 @@ ipcMain.handle('recording:getScreenSources', async () => {
   }
 });
 
-ipcMain.handle('recording:save', async (_event, blobData: Uint8Array) => {
-  try {
-    // Generate filename with timestamp
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `ClipForge-Recording-${timestamp}.webm`;
+// Stops the recording even while another app has focus, e.g. the window being recorded
+const RECORDING_STOP_SHORTCUT = 'CommandOrControl+Alt+R';
 
-    // Save to desktop
-    const desktopPath = app.getPath('desktop');
+// Registered only while recording, so the shortcut isn't taken from other apps the rest of the time.
+// Returns the accelerator, or null if another app already owns it.
+ipcMain.handle('recording:setStopShortcut', (event, enabled: boolean) => {
+  globalShortcut.unregister(RECORDING_STOP_SHORTCUT);
+  if (!enabled) return null;
+
+  const registered = globalShortcut.register(RECORDING_STOP_SHORTCUT, () => {
+    event.sender.send('recording:stopShortcut');
+  });
+  if (!registered) {
+    console.error('Could not register the recording stop shortcut:', RECORDING_STOP_SHORTCUT);
+  }
+  return registered ? RECORDING_STOP_SHORTCUT : null;
+});
+
+// Recordings are written chunk by chunk as MediaRecorder produces them, so a long recording never has
+// to fit in memory and whatever was captured before a crash is already on disk
+const openRecordings = new Map<string, { path: string; stream: fs.WriteStream }>();
+
+// Open one file per recorded part ('' for the main recording, or e.g. 'screen' and 'webcam'), all
+// named after the same start time. Returns an id per part for appending chunks.
+ipcMain.handle('recording:begin', async (_event, labels: string[]) => {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const desktopPath = app.getPath('desktop');
+
+  return labels.map((label) => {
+    const filename = `ClipForge-Recording-${timestamp}${label ? `-${label}` : ''}.webm`;
     const videoPath = path.join(desktopPath, filename);
+    const stream = fs.createWriteStream(videoPath);
+    stream.on('error', (error) => console.error('Error writing recording:', videoPath, error));
 
-    const buffer = Buffer.from(blobData);
-    fs.writeFileSync(videoPath, buffer);
-    console.log('Recording saved to:', videoPath);
-    return videoPath;
-  } catch (error) {
-    console.error('Error saving recording:', error);
-    throw error;
+    const id = Date.now().toString() + Math.random().toString(36).substring(7);
+    openRecordings.set(id, { path: videoPath, stream });
+    return id;
+  });
+});
+
+// Resolves once the chunk is handed to the OS, so the renderer sends the next one in order
+ipcMain.handle('recording:append', async (_event, id: string, chunk: Uint8Array) => {
+  const recording = openRecordings.get(id);
+  if (!recording) {
+    throw new Error('The recording file is not open');
   }
+
+  await new Promise<void>((resolve, reject) => {
+    recording.stream.write(Buffer.from(chunk), (error) => (error ? reject(error) : resolve()));
+  });
+});
+
+ipcMain.handle('recording:finish', async (_event, id: string) => {
+  const recording = openRecordings.get(id);
+  if (!recording) {
+    throw new Error('The recording file is not open');
+  }
+  openRecordings.delete(id);
+
+  await new Promise<void>((resolve, reject) => {
+    recording.stream.once('error', reject);
+    recording.stream.end(resolve);
+  });
+  console.log('Recording saved to:', recording.path);
+  return recording.path;
+});
+
+// The recording being remuxed or transcoded; files are processed one at a time
+let recordingProcessJob: ExportJob | null = null;
+
+// MediaRecorder writes WebM as it goes, so finished recordings have no duration or seek index (cues).
+// Remuxing rewrites the container with both; transcoding makes an H.264/AAC MP4 instead, which replaces
+// the WebM. `duration` is the recorded time, for progress, since the file itself doesn't know it.
+ipcMain.handle('recording:process', async (event, filePath: string, format: RecordingFormat, duration: number) => {
+  const base = filePath.replace(/\.webm$/i, '');
+  const outputPath = `${base}.${format}`;
+  const partialPath = `${base}.partial.${format}`;
+  const codecArgs =
+    format === 'mp4'
+      ? [
+          // Window captures can have odd sizes, which 4:2:0 H.264 can't encode
+          '-vf',
+          'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+          '-c:v',
+          'libx264',
+          '-preset',
+          'veryfast',
+          '-crf',
+          '20',
+          '-pix_fmt',
+          'yuv420p',
+          '-c:a',
+          'aac',
+          '-b:a',
+          '160k',
+          '-movflags',
+          '+faststart',
+        ]
+      : ['-c', 'copy'];
+
+  const job: ExportJob = { cancelled: false, processes: new Set() };
+  recordingProcessJob = job;
+  try {
+    await runRender(['-i', filePath, ...codecArgs, partialPath], duration, job, (percent) => {
+      event.sender.send('recording:processProgress', percent);
+    });
+    fs.renameSync(partialPath, outputPath);
+    if (outputPath !== filePath) {
+      fs.rmSync(filePath, { force: true });
+    }
+  } finally {
+    recordingProcessJob = null;
+    fs.rmSync(partialPath, { force: true });
+  }
+  console.log('Recording processed:', outputPath);
+  return outputPath;
+});
+
+// Stop processing a recording; the recorded WebM is left as it was
+ipcMain.handle('recording:cancelProcess', async () => {
+  if (!recordingProcessJob) return false;
+
+  recordingProcessJob.cancelled = true;
+  recordingProcessJob.processes.forEach((child) => child.kill('SIGKILL'));
+  return true;
+});
+
+// Project file handlers
+const PROJECT_FILE_EXTENSION = 'clipforge';
+const PROJECT_FILE_VERSION = 1;
+const projectFileFilters = [{ name: 'ClipForge Projects', extensions: [PROJECT_FILE_EXTENSION] }];
+
+const readProjectFile = (filePath: string): ProjectFile => {
+  const project = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+  if (project?.format !== 'clipforge' || typeof project.version !== 'number') {
+    throw new Error(`${path.basename(filePath)} is not a ClipForge project file`);
+  }
+
+  if (project.version > PROJECT_FILE_VERSION) {
+    throw new Error(
+      `${path.basename(filePath)} was saved by a newer version of ClipForge (project version ${project.version})`
+    );
+  }
+
+  if (!Array.isArray(project.mediaClips) || !Array.isArray(project.timelineClips)) {
+    throw new Error(`${path.basename(filePath)} is missing media or timeline data`);
+  }
+
+  return project;
+};
+
+ipcMain.handle('project:save', async (_event, project: ProjectData, filePath?: string) => {
+  let targetPath = filePath;
+
+  if (!targetPath) {
+    const result = await dialog.showSaveDialog({
+      defaultPath: `Untitled.${PROJECT_FILE_EXTENSION}`,
+      filters: projectFileFilters,
+    });
+
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+    targetPath = result.filePath;
+  }
+
+  const projectFile: ProjectFile = {
+    format: 'clipforge',
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    ...project,
+  };
+
+  fs.writeFileSync(targetPath, JSON.stringify(projectFile, null, 2));
+  console.log('Project saved to:', targetPath);
+  return targetPath;
+});
+
+ipcMain.handle('project:open', async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: projectFileFilters,
+  });
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+
+  const filePath = result.filePaths[0];
+  const project = readProjectFile(filePath);
+  const missingMedia = project.mediaClips
+    .filter((clip) => !fs.existsSync(clip.path))
+    .map((clip) => clip.path);
+
+  console.log('Project opened from:', filePath);
+  return { filePath, project, missingMedia };
+});
+
+// Autosave and crash recovery
+const RECOVERY_SNAPSHOT_LIMIT = 5;
+const getRecoveryDir = () => path.join(app.getPath('userData'), 'recovery');
+const getSessionLockPath = () => path.join(app.getPath('userData'), 'session.lock');
+
+// Whether the renderer should be offered the latest snapshot on its next check
+let recoveryPending = false;
+
+const beginSession = () => {
+  const lockPath = getSessionLockPath();
+  recoveryPending = fs.existsSync(lockPath);
+
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  fs.writeFileSync(lockPath, String(process.pid));
+
+  if (recoveryPending) {
+    console.log('Previous session did not shut down cleanly');
+  }
+};
+
+const endSession = () => {
+  try {
+    fs.unlinkSync(getSessionLockPath());
+  } catch (e) {
+    /* ignore */
+  }
+};
+
+// Snapshot file names sort chronologically, newest last
+const listRecoverySnapshots = () => {
+  const recoveryDir = getRecoveryDir();
+  if (!fs.existsSync(recoveryDir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(recoveryDir)
+    .filter((name) => name.startsWith('snapshot-') && name.endsWith('.json'))
+    .sort()
+    .map((name) => path.join(recoveryDir, name));
+};
+
+ipcMain.handle('recovery:saveSnapshot', async (_event, snapshot: RecoverySnapshot) => {
+  const recoveryDir = getRecoveryDir();
+  fs.mkdirSync(recoveryDir, { recursive: true });
+
+  const snapshotPath = path.join(recoveryDir, `snapshot-${Date.now()}.json`);
+  const tempPath = `${snapshotPath}.tmp`;
+
+  // Write to a temp file and rename so a crash mid-write never leaves a truncated snapshot
+  fs.writeFileSync(tempPath, JSON.stringify(snapshot));
+  fs.renameSync(tempPath, snapshotPath);
+
+  // Rotate: keep only the newest snapshots
+  const snapshots = listRecoverySnapshots();
+  snapshots.slice(0, Math.max(0, snapshots.length - RECOVERY_SNAPSHOT_LIMIT)).forEach((file) => {
+    try {
+      fs.unlinkSync(file);
+    } catch (e) {
+      /* ignore */
+    }
+  });
+});
+
+ipcMain.handle('recovery:check', async () => {
+  if (!recoveryPending) {
+    return null;
+  }
+  recoveryPending = false;
+
+  // Fall back to older snapshots if the newest one can't be read
+  const snapshots = listRecoverySnapshots().reverse();
+  for (const snapshotPath of snapshots) {
+    try {
+      const snapshot: RecoverySnapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8'));
+      console.log('Offering recovery snapshot:', snapshotPath);
+      return snapshot;
+    } catch (error) {
+      console.error('Unreadable recovery snapshot:', snapshotPath, error);
+    }
+  }
+
+  return null;
 });
@@ -0,0 +1,212 @@
+/**
+ * ClipForge - Picture-in-Picture Layouts
+ *
+ * How screen + webcam recordings are composed: the webcam as an overlay
+ * (in a corner or anywhere, as a rectangle, rounded rectangle or circle),
+ * screen and webcam side by side, or the webcam alone. The same drawing is
+ * used for the recorded canvas and for the layout preview in the recording
+ * dialog, so the layout can be changed live while recording.
+ */
+
+import { Rect, getFrameRect, getOverlayMargin } from './composition';
+
+export type PipLayoutMode = 'overlay' | 'side-by-side' | 'webcam-only';
+
+export type PipPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'free';
+
+export type PipShape = 'rectangle' | 'rounded' | 'circle';
+
+export interface PipLayout {
+  mode: PipLayoutMode;
+  position: PipPosition;
+  // Center of the webcam for a 'free' position, as a fraction of the frame (0 to 1)
+  x: number;
+  y: number;
+  // Webcam width as a fraction of the frame width
+  size: number;
+  shape: PipShape;
+  border: boolean;
+  borderColor: string;
+  shadow: boolean;
+}
+
+export const DEFAULT_PIP_LAYOUT: PipLayout = {
+  mode: 'overlay',
+  position: 'bottom-right',
+  x: 0.85,
+  y: 0.8,
+  size: 0.2,
+  shape: 'rectangle',
+  border: true,
+  borderColor: '#4a9eff',
+  shadow: true,
+};
+
+export const MIN_PIP_SIZE = 0.1;
+export const MAX_PIP_SIZE = 0.5;
+
+// Border width and shadow blur at 1920 pixels wide; they scale with the frame
+const BORDER_WIDTH = 4;
+const SHADOW_BLUR = 20;
+const REFERENCE_WIDTH = 1920;
+
+// Corner radius of the rounded shape, as a fraction of the webcam's shorter side
+const CORNER_RADIUS = 0.15;
+
+// A video (or placeholder canvas) to draw, with its natural size
+export interface PipSource {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+// Where the webcam lands in a `frameWidth` x `frameHeight` frame
+export const getWebcamRect = (
+  layout: PipLayout,
+  frameWidth: number,
+  frameHeight: number,
+  webcamWidth: number,
+  webcamHeight: number
+): Rect => {
+  if (layout.mode === 'webcam-only') {
+    return getFrameRect(frameWidth, frameHeight, webcamWidth, webcamHeight);
+  }
+  if (layout.mode === 'side-by-side') {
+    const half = Math.round(frameWidth / 2);
+    const rect = getFrameRect(frameWidth - half, frameHeight, webcamWidth, webcamHeight);
+    return { ...rect, x: rect.x + half };
+  }
+
+  // Circles are cut from the middle of the webcam picture, so their box is square
+  const width = Math.round(frameWidth * Math.min(MAX_PIP_SIZE, Math.max(MIN_PIP_SIZE, layout.size)));
+  const aspect = webcamWidth > 0 && webcamHeight > 0 ? webcamHeight / webcamWidth : 3 / 4;
+  const height = Math.min(frameHeight, Math.round(layout.shape === 'circle' ? width : width * aspect));
+  const margin = getOverlayMargin(frameWidth);
+
+  let x: number;
+  let y: number;
+  if (layout.position === 'free') {
+    x = layout.x * frameWidth - width / 2;
+    y = layout.y * frameHeight - height / 2;
+  } else {
+    x = layout.position.endsWith('left') ? margin : frameWidth - width - margin;
+    y = layout.position.startsWith('top') ? margin : frameHeight - height - margin;
+  }
+
+  return {
+    x: Math.round(Math.min(frameWidth - width, Math.max(0, x))),
+    y: Math.round(Math.min(frameHeight - height, Math.max(0, y))),
+    width,
+    height,
+  };
+};
+
+// Where the screen lands; nowhere for the webcam-only layout
+export const getScreenRect = (
+  layout: PipLayout,
+  frameWidth: number,
+  frameHeight: number,
+  screenWidth: number,
+  screenHeight: number
+): Rect | null => {
+  if (layout.mode === 'webcam-only') return null;
+  if (layout.mode === 'side-by-side') {
+    return getFrameRect(Math.round(frameWidth / 2), frameHeight, screenWidth, screenHeight);
+  }
+  return getFrameRect(frameWidth, frameHeight, screenWidth, screenHeight);
+};
+
+const traceShape = (ctx: CanvasRenderingContext2D, shape: PipShape, rect: Rect) => {
+  ctx.beginPath();
+  if (shape === 'circle') {
+    ctx.ellipse(rect.x + rect.width / 2, rect.y + rect.height / 2, rect.width / 2, rect.height / 2, 0, 0, Math.PI * 2);
+  } else if (shape === 'rounded') {
+    ctx.roundRect(rect.x, rect.y, rect.width, rect.height, Math.min(rect.width, rect.height) * CORNER_RADIUS);
+  } else {
+    ctx.rect(rect.x, rect.y, rect.width, rect.height);
+  }
+};
+
+// Draw `source` over `rect`, cropping its middle to fill it (used for circles and squares)
+const drawCovering = (ctx: CanvasRenderingContext2D, source: PipSource, rect: Rect) => {
+  const scale = Math.max(rect.width / source.width, rect.height / source.height);
+  const cropWidth = rect.width / scale;
+  const cropHeight = rect.height / scale;
+  ctx.drawImage(
+    source.image,
+    (source.width - cropWidth) / 2,
+    (source.height - cropHeight) / 2,
+    cropWidth,
+    cropHeight,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height
+  );
+};
+
+// Stand-in for a source that isn't available (yet), e.g. the screen before one is chosen
+const drawPlaceholder = (ctx: CanvasRenderingContext2D, rect: Rect, label: string) => {
+  ctx.fillStyle = '#3a3a3a';
+  ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+  ctx.fillStyle = '#999';
+  ctx.font = `${Math.max(10, Math.round(rect.height / 8))}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, rect.x + rect.width / 2, rect.y + rect.height / 2);
+};
+
+// Compose one frame of a screen + webcam recording
+export const drawPipFrame = (
+  ctx: CanvasRenderingContext2D,
+  frameWidth: number,
+  frameHeight: number,
+  layout: PipLayout,
+  screen: PipSource | null,
+  webcam: PipSource | null
+) => {
+  const scale = frameWidth / REFERENCE_WIDTH;
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, frameWidth, frameHeight);
+
+  const screenRect = getScreenRect(layout, frameWidth, frameHeight, screen?.width ?? 16, screen?.height ?? 9);
+  if (screenRect) {
+    if (screen) {
+      ctx.drawImage(screen.image, screenRect.x, screenRect.y, screenRect.width, screenRect.height);
+    } else {
+      drawPlaceholder(ctx, screenRect, 'Screen');
+    }
+  }
+
+  const webcamRect = getWebcamRect(layout, frameWidth, frameHeight, webcam?.width ?? 4, webcam?.height ?? 3);
+  const isOverlay = layout.mode === 'overlay';
+  const shape = isOverlay ? layout.shape : 'rectangle';
+
+  ctx.save();
+  if (isOverlay && layout.shadow) {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    ctx.shadowBlur = SHADOW_BLUR * scale;
+    traceShape(ctx, shape, webcamRect);
+    ctx.fillStyle = 'black';
+    ctx.fill();
+    ctx.shadowColor = 'transparent';
+  }
+
+  traceShape(ctx, shape, webcamRect);
+  ctx.clip();
+  if (webcam) {
+    drawCovering(ctx, webcam, webcamRect);
+  } else {
+    drawPlaceholder(ctx, webcamRect, 'Webcam');
+  }
+  ctx.restore();
+
+  if (isOverlay && layout.border) {
+    ctx.save();
+    traceShape(ctx, shape, webcamRect);
+    ctx.strokeStyle = layout.borderColor;
+    ctx.lineWidth = Math.max(1, BORDER_WIDTH * scale);
+    ctx.stroke();
+    ctx.restore();
+  }
+};
@@ -1,50 +1,191 @@
 // See the Electron documentation for details on how to use preload scripts:
 // https://www.electronjs.org/docs/latest/tutorial/process-model#preload-scripts
 
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, webUtils } from 'electron';
+import type { ClipAudio } from './clipAudio';
+import type { ColorCorrection } from './colorCorrection';
+import type { ClipTransition } from './composition';
+import type { ExportFormat, ExportPreset, ExportSettings } from './exportSettings';
+import type { ImageMotion } from './stillImage';
+import type { TextOverlay } from './textOverlay';
 
+// A media library item. Audio files have no picture (0x0) and go on the audio tracks; still images
+// have no duration of their own, so `duration` is their default length on the timeline.
 export interface VideoClip {
   id: string;
   name: string;
   path: string;
+  // Missing on media imported before audio support, which was always video
+  kind?: 'video' | 'audio' | 'image';
   duration: number;
   width: number;
   height: number;
   size: number;
+  sampleRate?: number;
+  channels?: number;
+  // Video the preview can't play smoothly; it gets a proxy on import
+  needsProxy?: boolean;
+  // Lightweight copy the preview plays instead of the original (export always reads the original)
+  proxyPath?: string;
+  // Stream details from ffprobe; missing on media imported before they were recorded.
+  // width and height are as displayed, i.e. after `rotation` (clockwise degrees) is applied.
+  hasAudio?: boolean;
+  frameRate?: number;
+  variableFrameRate?: boolean;
+  videoCodec?: string;
+  audioCodec?: string;
+  // Overall bits per second
+  bitrate?: number;
+  pixelFormat?: string;
+  rotation?: number;
+  creationTime?: string;
 }
 
 export interface TimelineClip {
   id: string;
+  // Media library id (a file path when sent for export); empty for text clips
   clipId: string;
   startTime: number;
   duration: number;
   trimStart: number;
   trimEnd: number;
   track: number;
+  // Blend from the previous clip on the track; this clip overlaps it by the transition duration
+  transition?: ClipTransition;
+  color?: ColorCorrection;
+  audio?: ClipAudio;
+  // Present on text clips, which have no source file
+  text?: TextOverlay;
+  // Still images only: Ken Burns pan/zoom across the clip
+  motion?: ImageMotion;
+}
+
+export interface ProjectData {
+  mediaClips: VideoClip[];
+  timelineClips: TimelineClip[];
+  timelineZoom: number;
+  playheadTime: number;
+  inPoint?: number | null;
+  outPoint?: number | null;
+}
+
+export interface ProjectFile extends ProjectData {
+  format: 'clipforge';
+  version: number;
+  savedAt: string;
+}
+
+export interface OpenedProject {
+  filePath: string;
+  project: ProjectFile;
+  missingMedia: string[];
+}
+
+export interface RecoverySnapshot {
+  savedAt: string;
+  projectPath: string | null;
+  project: ProjectData;
+}
+
+// Portion of the timeline to export, in seconds
+export interface ExportRange {
+  start: number;
+  end: number;
+}
+
+export interface ExportClip extends TimelineClip {
+  // From the media's metadata, when it is known
+  hasAudio?: boolean;
+  // Text clips: the text pre-rendered by the renderer as a full-frame PNG.
+  // SVG images: the image rasterized to PNG, since ffmpeg can't read SVG.
+  image?: Uint8Array;
 }
 
 export interface ExportOptions {
   outputPath?: string;
-  resolution?: string;
-  clips: TimelineClip[];
+  settings?: ExportSettings;
+  clips: ExportClip[];
+  // Timeline length in seconds; trailing empty space is exported as black
+  duration?: number;
+  range?: ExportRange;
+}
+
+// Structured progress sent on 'export:progress'
+export interface ExportProgress {
+  percent: number;
+  // Human-readable step, e.g. "Analyzing clips" or "Rendering"
+  stage: string;
+  // Seconds since the export started, and estimated seconds remaining (null until known)
+  elapsed: number;
+  eta: number | null;
+}
+
+// Audio peaks for drawing waveforms: one value (0-255, loudest sample) per 1/peaksPerSecond seconds
+export interface WaveformData {
+  peaksPerSecond: number;
+  peaks: Uint8Array;
 }
 
+// Evenly spaced frames of a media file (image paths) for filmstrips and hover-scrubbing;
+// frame i shows the source at i * interval seconds
+export interface Filmstrip {
+  interval: number;
+  frames: string[];
+}
+
+// Files dropped from the OS, expanded by the main process: importable media, and everything else
+export interface DroppedFiles {
+  files: string[];
+  unsupported: string[];
+}
+
+// How finished recordings are saved: the recorded WebM remuxed (fast), or transcoded to H.264 MP4
+export type RecordingFormat = 'webm' | 'mp4';
+
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
 contextBridge.exposeInMainWorld('electronAPI', {
   // File operations
   selectVideoFiles: () => ipcRenderer.invoke('dialog:selectVideoFiles'),
   getVideoMetadata: (filePath: string) => ipcRenderer.invoke('video:getMetadata', filePath),
+  getWaveform: (filePath: string) => ipcRenderer.invoke('media:getWaveform', filePath),
+  getPoster: (filePath: string) => ipcRenderer.invoke('media:getPoster', filePath),
+  getFilmstrip: (filePath: string) => ipcRenderer.invoke('media:getFilmstrip', filePath),
+  createProxy: (filePath: string) => ipcRenderer.invoke('media:createProxy', filePath),
+  // Dropped File objects only carry their path through webUtils
+  getPathForFile: (file: File) => webUtils.getPathForFile(file),
+  expandDroppedPaths: (paths: string[]) => ipcRenderer.invoke('media:expandPaths', paths),
 
   // Export operations
   exportVideo: (options: ExportOptions) => ipcRenderer.invoke('video:export', options),
+  cancelExport: () => ipcRenderer.invoke('export:cancel'),
+  showItemInFolder: (filePath: string) => ipcRenderer.invoke('shell:showItemInFolder', filePath),
+  selectExportPath: (format: ExportFormat) => ipcRenderer.invoke('dialog:selectExportPath', format),
+  listExportPresets: () => ipcRenderer.invoke('presets:list'),
+  saveExportPreset: (preset: ExportPreset) => ipcRenderer.invoke('presets:save', preset),
+  deleteExportPreset: (name: string) => ipcRenderer.invoke('presets:delete', name),
+
+  // Project operations
+  saveProject: (project: ProjectData, filePath?: string) => ipcRenderer.invoke('project:save', project, filePath),
+  openProject: () => ipcRenderer.invoke('project:open'),
+
+  // Autosave and crash recovery
+  saveRecoverySnapshot: (snapshot: RecoverySnapshot) => ipcRenderer.invoke('recovery:saveSnapshot', snapshot),
+  checkRecovery: () => ipcRenderer.invoke('recovery:check'),
 
   // Recording operations
   getScreenSources: () => ipcRenderer.invoke('recording:getScreenSources'),
-  saveRecording: (blob: Uint8Array) => ipcRenderer.invoke('recording:save', blob),
+  beginRecording: (labels: string[]) => ipcRenderer.invoke('recording:begin', labels),
+  appendRecordingChunk: (recordingId: string, chunk: Uint8Array) =>
+    ipcRenderer.invoke('recording:append', recordingId, chunk),
+  finishRecording: (recordingId: string) => ipcRenderer.invoke('recording:finish', recordingId),
+  processRecording: (filePath: string, format: RecordingFormat, duration: number) =>
+    ipcRenderer.invoke('recording:process', filePath, format, duration),
+  cancelRecordingProcessing: () => ipcRenderer.invoke('recording:cancelProcess'),
+  setRecordingStopShortcut: (enabled: boolean) => ipcRenderer.invoke('recording:setStopShortcut', enabled),
 
   // Listen to events
-  onExportProgress: (callback: (progress: number) => void) => {
+  onExportProgress: (callback: (progress: ExportProgress) => void) => {
     ipcRenderer.on('export:progress', (_event, progress) => callback(progress));
   },
 
@@ -55,6 +196,22 @@ contextBridge.exposeInMainWorld('electronAPI', {
   onExportError: (callback: (error: string) => void) => {
     ipcRenderer.on('export:error', (_event, error) => callback(error));
   },
+
+  onExportCancelled: (callback: () => void) => {
+    ipcRenderer.on('export:cancelled', () => callback());
+  },
+
+  onMenuAction: (callback: (action: string) => void) => {
+    ipcRenderer.on('menu:action', (_event, action) => callback(action));
+  },
+
+  onRecordingStopShortcut: (callback: () => void) => {
+    ipcRenderer.on('recording:stopShortcut', () => callback());
+  },
+
+  onRecordingProcessProgress: (callback: (percent: number) => void) => {
+    ipcRenderer.on('recording:processProgress', (_event, percent) => callback(percent));
+  },
 });
 
 // Type declaration for TypeScript
@@ -63,12 +220,37 @@ declare global {
     electronAPI: {
       selectVideoFiles: () => Promise<string[]>;
       getVideoMetadata: (filePath: string) => Promise<VideoClip>;
+      getWaveform: (filePath: string) => Promise<WaveformData>;
+      getPoster: (filePath: string) => Promise<string>;
+      getFilmstrip: (filePath: string) => Promise<Filmstrip>;
+      createProxy: (filePath: string) => Promise<string>;
+      getPathForFile: (file: File) => string;
+      expandDroppedPaths: (paths: string[]) => Promise<DroppedFiles>;
       exportVideo: (options: ExportOptions) => Promise<void>;
+      cancelExport: () => Promise<boolean>;
+      showItemInFolder: (filePath: string) => Promise<void>;
+      selectExportPath: (format: ExportFormat) => Promise<string | null>;
+      listExportPresets: () => Promise<ExportPreset[]>;
+      saveExportPreset: (preset: ExportPreset) => Promise<ExportPreset[]>;
+      deleteExportPreset: (name: string) => Promise<ExportPreset[]>;
+      saveProject: (project: ProjectData, filePath?: string) => Promise<string | null>;
+      openProject: () => Promise<OpenedProject | null>;
+      saveRecoverySnapshot: (snapshot: RecoverySnapshot) => Promise<void>;
+      checkRecovery: () => Promise<RecoverySnapshot | null>;
       getScreenSources: () => Promise<Array<{ id: string; name: string; thumbnail: string }>>;
-      saveRecording: (blob: Uint8Array) => Promise<string>;
-      onExportProgress: (callback: (progress: number) => void) => void;
+      beginRecording: (labels: string[]) => Promise<string[]>;
+      appendRecordingChunk: (recordingId: string, chunk: Uint8Array) => Promise<void>;
+      finishRecording: (recordingId: string) => Promise<string>;
+      processRecording: (filePath: string, format: RecordingFormat, duration: number) => Promise<string>;
+      cancelRecordingProcessing: () => Promise<boolean>;
+      setRecordingStopShortcut: (enabled: boolean) => Promise<string | null>;
+      onExportProgress: (callback: (progress: ExportProgress) => void) => void;
       onExportComplete: (callback: (outputPath: string) => void) => void;
       onExportError: (callback: (error: string) => void) => void;
+      onExportCancelled: (callback: () => void) => void;
+      onMenuAction: (callback: (action: string) => void) => void;
+      onRecordingStopShortcut: (callback: () => void) => void;
+      onRecordingProcessProgress: (callback: (percent: number) => void) => void;
     };
   }
 }
@@ -0,0 +1,475 @@
+/**
+ * ClipForge - Timeline Preview Compositor
+ *
+ * Plays every clip that is active at the playhead in its own (off-screen)
+ * video element (still images are loaded once as images) and draws them into
+ * a canvas, lowest track first, using the
+ * same layout as export. A wall-clock master keeps the layers and their audio
+ * in sync.
+ */
+
+import {
+  OUTPUT_WIDTH,
+  OUTPUT_HEIGHT,
+  ClipTransition,
+  TransitionType,
+  getFrameRect,
+  getOverlayRect,
+  getTransitionPartner,
+  isAudioTrack,
+} from './composition';
+import { ClipAudio, getClipGain } from './clipAudio';
+import { ColorCorrection, getColorFilterPrimitives, isNeutralColor } from './colorCorrection';
+import { ImageMotion, getMotionWindow } from './stillImage';
+import { TextOverlay, drawTextOverlay } from './textOverlay';
+
+export interface PreviewLayer {
+  id: string;
+  path: string;
+  track: number;
+  startTime: number;
+  duration: number;
+  trimStart: number;
+  width: number;
+  height: number;
+  transition?: ClipTransition;
+  color?: ColorCorrection;
+  audio?: ClipAudio;
+  // Text layers are drawn directly; they have no video
+  text?: TextOverlay;
+  // Still image layers, with their optional pan/zoom
+  image?: { motion?: ImageMotion };
+}
+
+// A transition in progress at the current time; progress runs from 0 to 1
+interface ActiveTransition {
+  type: TransitionType;
+  progress: number;
+}
+
+// Drift (seconds) from the master clock that is corrected by nudging playback rate
+const DRIFT_NUDGE = 0.04;
+// Drift that is corrected by seeking instead
+const DRIFT_SEEK = 0.3;
+// Clips starting within this many seconds are preloaded at their first frame
+const PRELOAD_AHEAD = 1.5;
+// Longest canvas side; larger export frames are previewed scaled down to this
+const MAX_CANVAS_SIZE = 1920;
+
+export class PreviewCompositor {
+  private context: CanvasRenderingContext2D;
+  private layers: PreviewLayer[] = [];
+  private videos: Map<string, HTMLVideoElement> = new Map();
+  private images: Map<string, HTMLImageElement> = new Map();
+  private time = 0;
+  private playing = false;
+  // performance.now() at which timeline time 0 would have played
+  private clockOrigin = 0;
+  private animationFrame: number | null = null;
+  // Each player's audio runs through a gain node, so clips can be boosted above the source level
+  private audioContext: AudioContext | null = null;
+  private gains: Map<string, GainNode> = new Map();
+  // Hidden SVG holding one color filter per color-corrected layer, referenced from the canvas filter
+  private colorFilters: SVGSVGElement;
+  private colorFilterIds: Map<string, string> = new Map();
+  private colorFilterGeneration = 0;
+
+  constructor(
+    private canvas: HTMLCanvasElement,
+    private onTimeUpdate: (time: number) => void,
+    private onEnded: () => void
+  ) {
+    this.canvas.width = OUTPUT_WIDTH;
+    this.canvas.height = OUTPUT_HEIGHT;
+    this.context = this.canvas.getContext('2d') as CanvasRenderingContext2D;
+
+    this.colorFilters = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    this.colorFilters.setAttribute('width', '0');
+    this.colorFilters.setAttribute('height', '0');
+    this.colorFilters.style.position = 'absolute';
+    document.body.appendChild(this.colorFilters);
+  }
+
+  setLayers(layers: PreviewLayer[]) {
+    this.layers = [...layers].sort((a, b) => a.track - b.track || a.startTime - b.startTime);
+
+    // Release players for clips that are no longer on the timeline
+    const layerIds = new Set(this.layers.map((layer) => layer.id));
+    Array.from(this.videos.keys())
+      .filter((id) => !layerIds.has(id))
+      .forEach((id) => this.releaseVideo(id));
+    // ...and for clips whose media moved to another file (e.g. a proxy became ready)
+    this.layers
+      .filter((layer) => this.videos.has(layer.id) && this.videos.get(layer.id)?.dataset.path !== layer.path)
+      .forEach((layer) => this.releaseVideo(layer.id));
+    Array.from(this.images.keys())
+      .filter((id) => !layerIds.has(id))
+      .forEach((id) => this.images.delete(id));
+
+    this.updateColorFilters();
+
+    if (this.playing) {
+      this.syncVideos(false);
+    }
+  }
+
+  // Match the export frame's aspect ratio (e.g. portrait exports preview in a portrait frame)
+  setFrameSize(width: number, height: number) {
+    const scale = Math.min(1, MAX_CANVAS_SIZE / Math.max(width, height));
+    const canvasWidth = Math.round(width * scale);
+    const canvasHeight = Math.round(height * scale);
+    if (canvasWidth === this.canvas.width && canvasHeight === this.canvas.height) return;
+
+    this.canvas.width = canvasWidth;
+    this.canvas.height = canvasHeight;
+    this.draw();
+  }
+
+  getDuration(): number {
+    return this.layers.reduce((end, layer) => Math.max(end, layer.startTime + layer.duration), 0);
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  seek(time: number) {
+    this.time = Math.max(0, time);
+    if (this.playing) {
+      this.clockOrigin = performance.now() - this.time * 1000;
+    }
+
+    this.syncVideos(true);
+    this.draw();
+  }
+
+  play() {
+    if (this.playing || this.layers.length === 0) return;
+
+    // Restart from the beginning when play is pressed at the end
+    if (this.time >= this.getDuration()) {
+      this.time = 0;
+    }
+
+    this.playing = true;
+    this.audioContext?.resume().catch((err) => console.error('Preview audio failed to start:', err));
+    this.clockOrigin = performance.now() - this.time * 1000;
+    this.syncVideos(true);
+    this.animationFrame = requestAnimationFrame(() => this.tick());
+  }
+
+  pause() {
+    this.playing = false;
+
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+
+    this.videos.forEach((video) => video.pause());
+  }
+
+  private tick() {
+    if (!this.playing) return;
+
+    const duration = this.getDuration();
+    this.time = (performance.now() - this.clockOrigin) / 1000;
+
+    if (this.time >= duration) {
+      this.time = duration;
+      this.pause();
+      this.draw();
+      this.onTimeUpdate(this.time);
+      this.onEnded();
+      return;
+    }
+
+    this.syncVideos(false);
+    this.draw();
+    this.onTimeUpdate(this.time);
+
+    this.animationFrame = requestAnimationFrame(() => this.tick());
+  }
+
+  private isActive(layer: PreviewLayer, time: number): boolean {
+    return time >= layer.startTime && time < layer.startTime + layer.duration;
+  }
+
+  // The transition blending `layer` in, if the playhead is inside it
+  private getIncomingTransition(layer: PreviewLayer): ActiveTransition | null {
+    if (!layer.transition || !getTransitionPartner(layer, this.layers)) return null;
+
+    const progress = (this.time - layer.startTime) / layer.transition.duration;
+    if (progress < 0 || progress >= 1) return null;
+    return { type: layer.transition.type, progress };
+  }
+
+  // The transition blending `layer` out into the next clip, if the playhead is inside it
+  private getOutgoingTransition(layer: PreviewLayer): ActiveTransition | null {
+    const next = this.layers.find((other) => getTransitionPartner(other, this.layers) === layer);
+    return next ? this.getIncomingTransition(next) : null;
+  }
+
+  // The layer's own volume and fades, scaled by any transition it is part of
+  private getLayerGain(layer: PreviewLayer): number {
+    return this.getTransitionVolume(layer) * getClipGain(layer.audio, this.time - layer.startTime, layer.duration);
+  }
+
+  // Audio crossfades across every transition, whatever its picture effect
+  private getTransitionVolume(layer: PreviewLayer): number {
+    const incoming = this.getIncomingTransition(layer);
+    if (incoming) return incoming.progress;
+
+    const outgoing = this.getOutgoingTransition(layer);
+    return outgoing ? 1 - outgoing.progress : 1;
+  }
+
+  // Bring every active player to the master clock and park everything else
+  private syncVideos(forceSeek: boolean) {
+    for (const layer of this.layers) {
+      if (layer.text) continue;
+
+      const active = this.isActive(layer, this.time);
+      const upcoming = !active && layer.startTime > this.time && layer.startTime - this.time < PRELOAD_AHEAD;
+
+      // Images only need loading; there is nothing to keep in time
+      if (layer.image) {
+        if (active || upcoming) this.getImage(layer);
+        continue;
+      }
+
+      if (!active && !upcoming) {
+        const idle = this.videos.get(layer.id);
+        if (idle && !idle.paused) {
+          idle.pause();
+        }
+        continue;
+      }
+
+      const video = this.getVideo(layer);
+
+      if (upcoming) {
+        // Park on the first frame so the cut is instant
+        if (!video.paused) video.pause();
+        if (!video.seeking && Math.abs(video.currentTime - layer.trimStart) > 0.05) {
+          video.currentTime = layer.trimStart;
+        }
+        continue;
+      }
+
+      const target = layer.trimStart + (this.time - layer.startTime);
+      const drift = video.currentTime - target;
+
+      if (forceSeek || (!video.seeking && Math.abs(drift) > DRIFT_SEEK)) {
+        video.currentTime = target;
+      }
+
+      const gain = this.gains.get(layer.id);
+      if (gain) {
+        gain.gain.value = this.getLayerGain(layer);
+      }
+
+      if (this.playing) {
+        // Small drift is absorbed by running slightly fast/slow, which keeps audio glitch-free
+        video.playbackRate = Math.abs(drift) > DRIFT_NUDGE ? (drift > 0 ? 0.95 : 1.05) : 1;
+        if (video.paused) {
+          video.play().catch((err) => console.error('Preview playback failed:', err));
+        }
+      } else if (!video.paused) {
+        video.pause();
+      }
+    }
+  }
+
+  private draw() {
+    const ctx = this.context;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+    if (this.layers.length === 0) return;
+
+    // Same rule as export: the lowest track with video fills the frame, higher tracks are overlays
+    const baseTrack = this.layers.find((layer) => !layer.text && !isAudioTrack(layer.track))?.track;
+
+    // Text sits above the video of its own track, so it is drawn once that track's video is down
+    const pendingText: PreviewLayer[] = [];
+    const drawPendingText = (belowTrack: number) => {
+      while (pendingText.length > 0 && pendingText[0].track < belowTrack) {
+        const layer = pendingText.shift() as PreviewLayer;
+        drawTextOverlay(ctx, layer.text as TextOverlay, this.canvas.width, this.canvas.height, this.time - layer.startTime);
+      }
+    };
+
+    for (const layer of this.layers) {
+      // Audio tracks are only heard (their players are kept in sync like any other)
+      if (!this.isActive(layer, this.time) || isAudioTrack(layer.track)) continue;
+
+      if (layer.text) {
+        pendingText.push(layer);
+        continue;
+      }
+      drawPendingText(layer.track);
+
+      const isBase = layer.track === baseTrack;
+      const incoming = this.getIncomingTransition(layer);
+
+      // Dip to black: the first half darkens the outgoing clip (already drawn), the second half fades in
+      if (isBase && incoming?.type === 'dipToBlack' && incoming.progress < 0.5) {
+        ctx.save();
+        ctx.globalAlpha = incoming.progress * 2;
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+        ctx.restore();
+        continue;
+      }
+
+      const source = layer.image ? this.getImage(layer) : this.videos.get(layer.id);
+      if (!source || !this.isReady(source)) continue;
+
+      const sourceWidth = (source instanceof HTMLImageElement ? source.naturalWidth : source.videoWidth) || layer.width;
+      const sourceHeight = (source instanceof HTMLImageElement ? source.naturalHeight : source.videoHeight) || layer.height;
+      const rect = isBase
+        ? getFrameRect(this.canvas.width, this.canvas.height, sourceWidth, sourceHeight)
+        : getOverlayRect(this.canvas.width, this.canvas.height, sourceWidth, sourceHeight);
+
+      ctx.save();
+      if (isBase) {
+        this.applyBaseTransition(incoming, this.getOutgoingTransition(layer));
+      } else if (incoming) {
+        // Overlay tracks render every transition as a crossfade, as export does
+        ctx.globalAlpha = incoming.progress;
+      }
+      // Set after the transition setup so only the clip itself is color corrected
+      const colorFilterId = this.colorFilterIds.get(layer.id);
+      if (colorFilterId) {
+        ctx.filter = `url(#${colorFilterId})`;
+      }
+      if (layer.image?.motion) {
+        // Ken Burns: the moving window of the image fills the clip's rect, as zoompan does in export
+        const progress = (this.time - layer.startTime) / layer.duration;
+        const view = getMotionWindow(layer.image.motion, progress, sourceWidth, sourceHeight);
+        ctx.drawImage(source, view.x, view.y, view.width, view.height, rect.x, rect.y, rect.width, rect.height);
+      } else {
+        ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height);
+      }
+      ctx.restore();
+    }
+
+    drawPendingText(Infinity);
+  }
+
+  // Set up the context for drawing a base-track clip that is mid-transition (same looks as ffmpeg xfade)
+  private applyBaseTransition(incoming: ActiveTransition | null, outgoing: ActiveTransition | null) {
+    const ctx = this.context;
+    const { width, height } = this.canvas;
+
+    if (outgoing?.type === 'slide') {
+      ctx.translate(-outgoing.progress * width, 0);
+    }
+
+    if (!incoming) return;
+
+    switch (incoming.type) {
+      case 'crossfade':
+        ctx.globalAlpha = incoming.progress;
+        break;
+      case 'dipToBlack':
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, width, height);
+        ctx.globalAlpha = incoming.progress * 2 - 1;
+        break;
+      case 'wipe':
+        // The incoming clip is revealed from the right edge
+        ctx.beginPath();
+        ctx.rect(width * (1 - incoming.progress), 0, width * incoming.progress, height);
+        ctx.clip();
+        break;
+      case 'slide':
+        ctx.translate(width * (1 - incoming.progress), 0);
+        break;
+    }
+  }
+
+  private getVideo(layer: PreviewLayer): HTMLVideoElement {
+    let video = this.videos.get(layer.id);
+
+    if (!video) {
+      video = document.createElement('video');
+      video.preload = 'auto';
+      video.src = `file://${layer.path}`;
+      video.dataset.path = layer.path;
+
+      // Paused frames only update once the seek lands
+      const redraw = () => {
+        if (!this.playing) this.draw();
+      };
+      video.addEventListener('seeked', redraw);
+      video.addEventListener('loadeddata', redraw);
+
+      if (!this.audioContext) {
+        this.audioContext = new AudioContext();
+      }
+      const gain = this.audioContext.createGain();
+      this.audioContext.createMediaElementSource(video).connect(gain).connect(this.audioContext.destination);
+      this.gains.set(layer.id, gain);
+
+      this.videos.set(layer.id, video);
+    }
+
+    return video;
+  }
+
+  private getImage(layer: PreviewLayer): HTMLImageElement {
+    let image = this.images.get(layer.id);
+
+    if (!image) {
+      image = new Image();
+      image.addEventListener('load', () => {
+        if (!this.playing) this.draw();
+      });
+      image.src = `file://${layer.path}`;
+      this.images.set(layer.id, image);
+    }
+
+    return image;
+  }
+
+  private isReady(source: HTMLVideoElement | HTMLImageElement): boolean {
+    return source instanceof HTMLImageElement
+      ? source.complete && source.naturalWidth > 0
+      : source.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA;
+  }
+
+  // Rebuild the SVG color filters. Ids change on every rebuild so the canvas never reuses a stale filter.
+  private updateColorFilters() {
+    this.colorFilterGeneration++;
+    this.colorFilterIds.clear();
+
+    const filters = this.layers
+      .filter((layer) => layer.color && !isNeutralColor(layer.color))
+      .map((layer) => {
+        const id = `clipforge-color-${this.colorFilterGeneration}-${layer.id}`;
+        this.colorFilterIds.set(layer.id, id);
+        return `<filter id="${id}" color-interpolation-filters="sRGB">${getColorFilterPrimitives(layer.color as ColorCorrection)}</filter>`;
+      });
+
+    this.colorFilters.innerHTML = filters.join('');
+  }
+
+  private releaseVideo(id: string) {
+    const video = this.videos.get(id);
+    if (!video) return;
+
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    this.videos.delete(id);
+
+    this.gains.get(id)?.disconnect();
+    this.gains.delete(id);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * ClipForge - Recording Audio
+ *
+ * Microphone and system (desktop) audio for recordings. Each source goes
+ * through its own gain and level meter, and the sources are mixed into the
+ * single audio track the MediaRecorder records. Nothing is played back, so
+ * the mix can't feed back into the microphone.
+ */
+
+import { dbToGain } from './clipAudio';
+
+export type RecordingAudioSource = 'microphone' | 'system';
+
+export interface RecordingAudioSettings {
+  // Device id of the microphone, 'default' for the system default, '' for no microphone
+  microphoneId: string;
+  microphoneGain: number; // dB
+  systemAudio: boolean;
+  systemGain: number; // dB
+}
+
+export const DEFAULT_RECORDING_AUDIO: RecordingAudioSettings = {
+  microphoneId: 'default',
+  microphoneGain: 0,
+  systemAudio: false,
+  systemGain: 0,
+};
+
+export const MIN_RECORDING_GAIN_DB = -24;
+export const MAX_RECORDING_GAIN_DB = 24;
+
+// Quietest level the meters show; anything below reads as silence
+const METER_FLOOR_DB = -60;
+
+// Microphone constraints for getUserMedia
+export const getMicrophoneConstraints = (settings: RecordingAudioSettings): MediaTrackConstraints | boolean => {
+  if (settings.microphoneId === 'default') return true;
+  return { deviceId: { exact: settings.microphoneId } };
+};
+
+// A peak level (0 to 1) as a meter position (0 to 1) on a dB scale, so quiet speech still moves the meter
+export const getMeterPosition = (peak: number): number => {
+  if (peak <= 0) return 0;
+  const db = 20 * Math.log10(Math.min(1, peak));
+  return Math.max(0, 1 - db / METER_FLOOR_DB);
+};
+
+export class RecordingAudioMixer {
+  private context = new AudioContext();
+  private destination = this.context.createMediaStreamDestination();
+  private analysers = new Map<RecordingAudioSource, AnalyserNode>();
+  private tracks: MediaStreamTrack[] = [];
+  private samples = new Float32Array(2048);
+
+  // Mix the audio of `stream` in at `gainDb`; streams without audio are ignored
+  addSource(source: RecordingAudioSource, stream: MediaStream, gainDb: number) {
+    const audioTracks = stream.getAudioTracks();
+    if (audioTracks.length === 0) return;
+
+    const input = this.context.createMediaStreamSource(new MediaStream(audioTracks));
+    const gain = this.context.createGain();
+    gain.gain.value = dbToGain(gainDb);
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = this.samples.length;
+
+    input.connect(gain);
+    gain.connect(analyser);
+    gain.connect(this.destination);
+
+    this.analysers.set(source, analyser);
+    this.tracks.push(...audioTracks);
+  }
+
+  hasSource(source: RecordingAudioSource): boolean {
+    return this.analysers.has(source);
+  }
+
+  // The mixed track to record, if any source has audio
+  getTrack(): MediaStreamTrack | undefined {
+    return this.analysers.size > 0 ? this.destination.stream.getAudioTracks()[0] : undefined;
+  }
+
+  // Peak level of a source after its gain, 0 (silence) to 1 (full scale); null if it isn't being recorded
+  getLevel(source: RecordingAudioSource): number | null {
+    const analyser = this.analysers.get(source);
+    if (!analyser) return null;
+
+    analyser.getFloatTimeDomainData(this.samples);
+    let peak = 0;
+    for (const sample of this.samples) {
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    return peak;
+  }
+
+  // Stop the source tracks and release the audio graph
+  close() {
+    this.tracks.forEach((track) => track.stop());
+    this.tracks = [];
+    this.analysers.clear();
+    this.context.close().catch((error) => console.error('Error closing recording audio:', error));
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * ClipForge - Render Graph
+ *
+ * Turns the timeline into a single ffmpeg invocation: every clip is an input
+ * (still images are looped), and one filter_complex trims, scales, fills gaps, concatenates the base
+ * track, layers overlay tracks and text on top and mixes in all audio,
+ * including the audio-only tracks. Pure and deterministic so the same
+ * timeline always yields the same arguments.
+ */
+
+import {
+  ClipTransition,
+  EDGE_TOLERANCE,
+  TransitionType,
+  getOverlayBox,
+  getOverlayMargin,
+  getTransitionPartner,
+  isAudioTrack,
+} from './composition';
+import { ClipAudio, getAudioFilters } from './clipAudio';
+import { ColorCorrection, getColorFilters } from './colorCorrection';
+import { ImageMotion, getMotionFilter } from './stillImage';
+import { TEXT_ANIMATION_DURATION, TextAnimation } from './textOverlay';
+
+export interface RenderClip {
+  path: string;
+  track: number;
+  startTime: number;
+  duration: number;
+  trimStart: number;
+  // Clips without an audio stream get generated silence
+  hasAudio: boolean;
+  transition?: ClipTransition;
+  color?: ColorCorrection;
+  audio?: ClipAudio;
+  // Text clips: `path` is a pre-rendered full-frame PNG, animated in on its way onto the frame
+  text?: { animation: TextAnimation };
+  // Still images: looped for the clip's duration, with optional pan/zoom
+  image?: { width: number; height: number; motion?: ImageMotion };
+}
+
+// Dimensions and frame rate every layer is conformed to
+export interface RenderFrame {
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export interface RenderGraph {
+  inputArgs: string[];
+  filters: string[];
+  videoLabel: string;
+  audioLabel: string;
+}
+
+// Shorter gaps than this are rounding noise from snapping, not intentional gaps
+export const MIN_GAP_DURATION = 0.01;
+
+const AUDIO_SAMPLE_RATE = 44100;
+const AUDIO_FORMAT = `aformat=sample_fmts=fltp:sample_rates=${AUDIO_SAMPLE_RATE}:channel_layouts=stereo`;
+
+// A segment with a transition is blended into the segment before it instead of cut to
+type BaseSegment = { clip: RenderClip; transition?: ClipTransition } | { gap: number };
+
+// xfade transition names for each transition type
+const XFADE_TRANSITIONS: Record<TransitionType, string> = {
+  crossfade: 'fade',
+  dipToBlack: 'fadeblack',
+  wipe: 'wipeleft',
+  slide: 'slideleft',
+};
+
+// Stable text for times in filter arguments (no float noise like 1.2000000000000002)
+const formatSeconds = (value: number) => Number(value.toFixed(3)).toString();
+
+// The base track's clips in order, with gaps filled so the track spans the whole timeline
+export const getBaseSegments = (baseClips: RenderClip[], totalDuration: number): BaseSegment[] => {
+  const segments: BaseSegment[] = [];
+  let cursor = 0;
+
+  for (const clip of baseClips) {
+    if (clip.startTime - cursor > MIN_GAP_DURATION) {
+      segments.push({ gap: clip.startTime - cursor });
+    }
+
+    const previous = segments[segments.length - 1];
+    const overlap = cursor - clip.startTime;
+
+    if (overlap > EDGE_TOLERANCE) {
+      if (clip.transition && previous && 'clip' in previous && Math.abs(overlap - clip.transition.duration) < EDGE_TOLERANCE) {
+        segments.push({ clip, transition: clip.transition });
+      } else if (clip.duration - overlap > MIN_GAP_DURATION) {
+        // An overlap without a matching transition (e.g. cut by the export range): drop the hidden head
+        segments.push({
+          clip: { ...clip, startTime: cursor, trimStart: clip.trimStart + overlap, duration: clip.duration - overlap },
+        });
+      }
+    } else {
+      segments.push({ clip });
+    }
+
+    cursor = Math.max(cursor, clip.startTime + clip.duration);
+  }
+
+  if (totalDuration - cursor > MIN_GAP_DURATION) {
+    segments.push({ gap: totalDuration - cursor });
+  }
+
+  return segments;
+};
+
+// Base-track clips fill the frame (letterboxed); overlay clips are fitted into the overlay box
+export const getFullFrameFilters = (frame: RenderFrame) => [
+  `scale=${frame.width}:${frame.height}:force_original_aspect_ratio=decrease`,
+  `pad=${frame.width}:${frame.height}:(ow-iw)/2:(oh-ih)/2`,
+  'setsar=1',
+];
+
+export const getOverlayFilters = (frame: RenderFrame) => {
+  const box = getOverlayBox(frame.width, frame.height);
+  return [
+    `scale=${box.width}:${box.height}:force_original_aspect_ratio=decrease`,
+    'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+    'setsar=1',
+  ];
+};
+
+// A still image's Ken Burns motion, played on the image itself before it is conformed like video
+const getMotionPrefix = (clip: RenderClip, frame: RenderFrame) =>
+  clip.image?.motion
+    ? `${getMotionFilter(clip.image.motion, clip.duration, frame.frameRate, clip.image.width, clip.image.height)},`
+    : '';
+
+// A clip's color correction, ahead of scaling so letterbox bars stay black
+const getColorPrefix = (clip: RenderClip) =>
+  getColorFilters(clip.color)
+    .map((filter) => `${filter},`)
+    .join('');
+
+// Muted clips are treated like clips without audio
+const isAudible = (clip: RenderClip) => clip.hasAudio && !clip.audio?.muted;
+
+// A clip's volume and fades, applied once its audio starts at 0
+const getAudioSuffix = (clip: RenderClip) =>
+  getAudioFilters(clip.audio, clip.duration)
+    .map((filter) => `,${filter}`)
+    .join('');
+
+// A clip's audio, conformed and cut to exactly its timeline duration (padded if the stream runs short)
+const getClipAudioFilter = (clip: RenderClip, input: number, label: string) => {
+  const duration = formatSeconds(clip.duration);
+  return isAudible(clip)
+    ? `[${input}:a]${AUDIO_FORMAT},apad,atrim=duration=${duration},asetpts=PTS-STARTPTS${getAudioSuffix(clip)}${label}`
+    : `anullsrc=channel_layout=stereo:sample_rate=${AUDIO_SAMPLE_RATE},atrim=duration=${duration},${AUDIO_FORMAT}${label}`;
+};
+
+export const buildRenderGraph = (clips: RenderClip[], frame: RenderFrame, totalDuration: number): RenderGraph => {
+  const sortedClips = [...clips].sort((a, b) => a.track - b.track || a.startTime - b.startTime);
+  // A range with only gaps in it is rendered as black and silence
+  if (sortedClips.length === 0 && totalDuration <= MIN_GAP_DURATION) {
+    throw new Error('Nothing to render');
+  }
+
+  // Tracks are layers: the lowest track with video is the base, higher tracks are overlaid on it.
+  // Text clips are always layered on top of the video of their own track. Audio tracks are only heard.
+  const videoTrackClips = sortedClips.filter((clip) => !isAudioTrack(clip.track));
+  const baseTrack = videoTrackClips.find((clip) => !clip.text)?.track;
+  const baseSegments = getBaseSegments(
+    videoTrackClips.filter((clip) => !clip.text && clip.track === baseTrack),
+    totalDuration
+  );
+  const overlayClips = videoTrackClips.filter((clip) => clip.text || clip.track !== baseTrack);
+  const audioTrackClips = sortedClips.filter((clip) => isAudioTrack(clip.track));
+
+  const inputArgs: string[] = [];
+  const filters: string[] = [];
+  let inputCount = 0;
+
+  // Input-side seeking reads only the trimmed range of each source; text and images are looped stills
+  const addInput = (clip: RenderClip) => {
+    if (clip.text || clip.image) {
+      inputArgs.push('-loop', '1', '-framerate', frame.frameRate.toString(), '-t', formatSeconds(clip.duration), '-i', clip.path);
+    } else {
+      inputArgs.push('-ss', formatSeconds(clip.trimStart), '-t', formatSeconds(clip.duration), '-i', clip.path);
+    }
+    return inputCount++;
+  };
+
+  // Base track: each clip or gap becomes one conformed segment. Segments joined by transitions are
+  // blended into a chain with xfade/acrossfade; chains are then concatenated.
+  const fullFrame = getFullFrameFilters(frame).join(',');
+  const concatInputs: string[] = [];
+  let chain: { video: string; audio: string; duration: number } | null = null;
+
+  const endChain = () => {
+    if (chain) {
+      concatInputs.push(chain.video, chain.audio);
+      chain = null;
+    }
+  };
+
+  baseSegments.forEach((segment, index) => {
+    const videoLabel = `[v${index}]`;
+    const audioLabel = `[a${index}]`;
+    const segmentDuration = 'gap' in segment ? segment.gap : segment.clip.duration;
+
+    if ('gap' in segment) {
+      const duration = formatSeconds(segment.gap);
+      filters.push(
+        `color=c=black:s=${frame.width}x${frame.height}:r=${frame.frameRate}:d=${duration},` +
+          `setsar=1,format=yuv420p${videoLabel}`
+      );
+      filters.push(
+        `anullsrc=channel_layout=stereo:sample_rate=${AUDIO_SAMPLE_RATE},atrim=duration=${duration},${AUDIO_FORMAT}${audioLabel}`
+      );
+    } else {
+      const input = addInput(segment.clip);
+      filters.push(
+        `[${input}:v]${getMotionPrefix(segment.clip, frame)}${getColorPrefix(segment.clip)}${fullFrame},fps=${frame.frameRate},format=yuv420p,` +
+          `trim=duration=${formatSeconds(segment.clip.duration)},setpts=PTS-STARTPTS${videoLabel}`
+      );
+      filters.push(getClipAudioFilter(segment.clip, input, audioLabel));
+    }
+
+    if ('transition' in segment && segment.transition && chain) {
+      const { type, duration } = segment.transition;
+      const offset = formatSeconds(chain.duration - duration);
+
+      filters.push(
+        `${chain.video}${videoLabel}xfade=transition=${XFADE_TRANSITIONS[type]}:` +
+          `duration=${formatSeconds(duration)}:offset=${offset}[xv${index}]`
+      );
+      filters.push(`${chain.audio}${audioLabel}acrossfade=d=${formatSeconds(duration)}[xa${index}]`);
+      chain = { video: `[xv${index}]`, audio: `[xa${index}]`, duration: chain.duration + segmentDuration - duration };
+    } else {
+      endChain();
+      chain = { video: videoLabel, audio: audioLabel, duration: segmentDuration };
+    }
+  });
+  endChain();
+
+  filters.push(`${concatInputs.join('')}concat=n=${concatInputs.length / 2}:v=1:a=1[basev][basea]`);
+
+  // Overlays: shift each to its timeline position and layer it over everything below it
+  const overlay = getOverlayFilters(frame).join(',');
+  const margin = getOverlayMargin(frame.width);
+  const audioLabels = ['[basea]'];
+  let videoLabel = '[basev]';
+
+  overlayClips.forEach((clip, index) => {
+    const input = addInput(clip);
+    const start = formatSeconds(clip.startTime);
+    const end = formatSeconds(clip.startTime + clip.duration);
+
+    if (clip.text) {
+      // Same entry animations as the preview: a linear alpha fade, or an ease-out slide from the left
+      const animation = formatSeconds(TEXT_ANIMATION_DURATION);
+      const fade = clip.text.animation === 'fade' ? `,fade=t=in:st=${start}:d=${animation}:alpha=1` : '';
+      const x = clip.text.animation === 'slide' ? `'-W*pow(1-min(1,(t-${start})/${animation}),3)'` : '0';
+
+      filters.push(
+        `[${input}:v]format=rgba,scale=${frame.width}:${frame.height},trim=duration=${formatSeconds(clip.duration)},` +
+          `setpts=PTS-STARTPTS+${start}/TB${fade}[ov${index}]`
+      );
+      filters.push(
+        `${videoLabel}[ov${index}]overlay=x=${x}:y=0:enable='between(t,${start},${end})':eof_action=pass[ovout${index}]`
+      );
+      videoLabel = `[ovout${index}]`;
+      return;
+    }
+
+    // Overlay tracks render every transition as a crossfade: the incoming clip fades in over the
+    // outgoing one (drawn first) while their audio crossfades
+    const fadeIn = clip.transition && getTransitionPartner(clip, overlayClips) ? clip.transition.duration : 0;
+    const next = overlayClips.find((other) => other.transition && getTransitionPartner(other, overlayClips) === clip);
+    const fadeOut = next?.transition ? next.transition.duration : 0;
+
+    const videoFade = fadeIn > 0 ? `,format=yuva420p,fade=t=in:st=${start}:d=${formatSeconds(fadeIn)}:alpha=1` : '';
+    filters.push(
+      `[${input}:v]${getMotionPrefix(clip, frame)}${getColorPrefix(clip)}${overlay},fps=${frame.frameRate},trim=duration=${formatSeconds(clip.duration)},` +
+        `setpts=PTS-STARTPTS+${start}/TB${videoFade}[ov${index}]`
+    );
+    filters.push(
+      `${videoLabel}[ov${index}]overlay=x=W-w-${margin}:y=H-h-${margin}:` +
+        `enable='between(t,${start},${end})':eof_action=pass[ovout${index}]`
+    );
+    videoLabel = `[ovout${index}]`;
+
+    if (isAudible(clip)) {
+      const delayMs = Math.round(clip.startTime * 1000);
+      const audioFades = [
+        fadeIn > 0 ? `afade=t=in:st=0:d=${formatSeconds(fadeIn)}` : '',
+        fadeOut > 0 ? `afade=t=out:st=${formatSeconds(clip.duration - fadeOut)}:d=${formatSeconds(fadeOut)}` : '',
+      ].filter(Boolean).map((fade) => `${fade},`).join('');
+      filters.push(
+        `[${input}:a]${AUDIO_FORMAT},atrim=duration=${formatSeconds(clip.duration)},asetpts=PTS-STARTPTS${getAudioSuffix(clip)},` +
+          `${audioFades}adelay=${delayMs}:all=1[oa${index}]`
+      );
+      audioLabels.push(`[oa${index}]`);
+    }
+  });
+
+  // Audio tracks: each clip's sound is shifted to its timeline position and mixed in
+  audioTrackClips.forEach((clip, index) => {
+    if (!isAudible(clip)) return;
+
+    const input = addInput(clip);
+    filters.push(
+      `[${input}:a]${AUDIO_FORMAT},atrim=duration=${formatSeconds(clip.duration)},asetpts=PTS-STARTPTS` +
+        `${getAudioSuffix(clip)},adelay=${Math.round(clip.startTime * 1000)}:all=1[ta${index}]`
+    );
+    audioLabels.push(`[ta${index}]`);
+  });
+
+  let audioLabel = '[basea]';
+  if (audioLabels.length > 1) {
+    filters.push(
+      `${audioLabels.join('')}amix=inputs=${audioLabels.length}:duration=first:dropout_transition=0:normalize=0[aout]`
+    );
+    audioLabel = '[aout]';
+  }
+
+  return { inputArgs, filters, videoLabel, audioLabel };
+};
+
+// Complete ffmpeg argument list (without the binary) for rendering the timeline to `outputPath`
+export const buildRenderArgs = (
+  clips: RenderClip[],
+  frame: RenderFrame,
+  totalDuration: number,
+  encoderOptions: string[],
+  outputPath: string
+): string[] => {
+  const graph = buildRenderGraph(clips, frame, totalDuration);
+
+  return [
+    ...graph.inputArgs,
+    '-filter_complex', graph.filters.join(';'),
+    '-map', graph.videoLabel,
+    '-map', graph.audioLabel,
+    '-r', frame.frameRate.toString(),
+    '-t', formatSeconds(totalDuration),
+    ...encoderOptions,
+    outputPath,
+  ];
+};
@@ -3,6 +3,46 @@
  */
 
 import './index.css';
+import { EditHistory } from './history';
+import { PreviewCompositor, PreviewLayer } from './previewCompositor';
+import {
+  ClipTransition,
+  EDGE_TOLERANCE,
+  TRANSITION_LABELS,
+  TransitionType,
+  VIDEO_TRACK_COUNT,
+  getFrameRect,
+  getOutputSize,
+  getTransitionPartner,
+  isAudioTrack,
+} from './composition';
+import { ClipAudio, DEFAULT_CLIP_AUDIO, MAX_VOLUME_DB, MIN_VOLUME_DB, isDefaultAudio } from './clipAudio';
+import {
+  DEFAULT_RECORDING_AUDIO,
+  RecordingAudioMixer,
+  RecordingAudioSettings,
+  RecordingAudioSource,
+  getMeterPosition,
+  getMicrophoneConstraints,
+} from './recordingAudio';
+import { DEFAULT_PIP_LAYOUT, PipLayout, PipLayoutMode, PipPosition, PipShape, drawPipFrame } from './pipLayout';
+import {
+  ColorCorrection,
+  ColorLook,
+  DEFAULT_COLOR_CORRECTION,
+  isNeutralColor,
+} from './colorCorrection';
+import {
+  DEFAULT_TEXT_DURATION,
+  DEFAULT_TEXT_OVERLAY,
+  TEXT_FONT_FAMILIES,
+  TextAnimation,
+  TextOverlay,
+  TextPosition,
+  renderTextImage,
+} from './textOverlay';
+import { DEFAULT_EXPORT_SETTINGS, ExportPreset, ExportSettings } from './exportSettings';
+import { DEFAULT_IMAGE_MOTION, ImageMotion, rasterizeImage, sliceMotion } from './stillImage';
 
 console.log('ClipForge Video Editor - Renderer loaded');
 
@@ -11,27 +51,140 @@ interface VideoClip {
   id: string;
   name: string;
   path: string;
+  kind?: 'video' | 'audio' | 'image';
   duration: number;
   width: number;
   height: number;
   size: number;
+  sampleRate?: number;
+  channels?: number;
+  needsProxy?: boolean;
+  proxyPath?: string;
+  hasAudio?: boolean;
+  frameRate?: number;
+  variableFrameRate?: boolean;
+  videoCodec?: string;
+  audioCodec?: string;
+  bitrate?: number;
+  pixelFormat?: string;
+  rotation?: number;
+  creationTime?: string;
 }
 
 interface TimelineClip {
   id: string;
+  // Empty for text clips, which have no source media
   clipId: string;
-  videoClip: VideoClip;
+  videoClip?: VideoClip;
   startTime: number;
   duration: number;
   trimStart: number;
   trimEnd: number;
   track: number;
+  // Blend from the previous clip on the track; this clip overlaps it by the transition duration
+  transition?: ClipTransition;
+  color?: ColorCorrection;
+  audio?: ClipAudio;
+  text?: TextOverlay;
+  motion?: ImageMotion;
 }
 
+interface WaveformData {
+  peaksPerSecond: number;
+  peaks: Uint8Array;
+}
+
+interface Filmstrip {
+  interval: number;
+  frames: string[];
+}
+
+interface ProjectData {
+  mediaClips: VideoClip[];
+  timelineClips: Omit<TimelineClip, 'videoClip'>[];
+  timelineZoom: number;
+  playheadTime: number;
+  inPoint?: number | null;
+  outPoint?: number | null;
+}
+
+interface ExportProgress {
+  percent: number;
+  stage: string;
+  elapsed: number;
+  eta: number | null;
+}
+
+// Screen, webcam or screen with a webcam overlay
+type RecordingMode = 'screen' | 'webcam' | 'pip';
+
+// How finished recordings are saved: the recorded WebM remuxed (fast), or transcoded to H.264 MP4
+type RecordingFormat = 'webm' | 'mp4';
+
+interface RecordingOptions {
+  countdown: number; // seconds, 0 to start straight away
+  timeLimit: number; // seconds, 0 for no limit
+  // Picture-in-picture only: also record the screen and webcam to files of their own
+  separateFiles: boolean;
+  format: RecordingFormat;
+}
+
+const DEFAULT_RECORDING_OPTIONS: RecordingOptions = {
+  countdown: 3,
+  timeLimit: 0,
+  separateFiles: false,
+  format: 'webm',
+};
+
+// How often recorded data is written to disk; at most this much is lost if the app crashes
+const RECORDING_CHUNK_MS = 1000;
+
+// A stream recorded to a file of its own, named with `label`
+interface RecordingPart {
+  label: string;
+  stream: MediaStream;
+}
+
+interface FileRecorder {
+  recorder: MediaRecorder;
+  // Resolves with the file's path once the recorder has stopped and the file is closed
+  saved: Promise<string>;
+}
+
+// Large enough for the side-by-side and webcam-only layouts, not just a corner overlay
+const PIP_WEBCAM_CONSTRAINTS: MediaTrackConstraints = { width: { ideal: 1280 }, height: { ideal: 720 } };
+
+// Shortest transition that can be placed between two clips, in seconds
+const MIN_TRANSITION_DURATION = 0.1;
+
+// Shortest gap a new text clip can be dropped into, in seconds
+const MIN_TEXT_DURATION = 0.5;
+
+// Waveform canvases are capped at this width (long clips at high zoom are stretched to fit)
+const MAX_WAVEFORM_WIDTH = 8192;
+const WAVEFORM_HEIGHT = 60;
+
+// Filmstrip tiles match the clip height; very long clips at high zoom stop adding tiles past the cap
+const FILMSTRIP_TILE_HEIGHT = 60;
+const MAX_FILMSTRIP_TILES = 200;
+
+// Longest list of problem files shown in the import summary
+const MAX_LISTED_IMPORT_PROBLEMS = 10;
+
+// Autosave cadence: a debounced snapshot after each edit plus a periodic safety net
+const AUTOSAVE_DEBOUNCE_MS = 2000;
+const AUTOSAVE_INTERVAL_MS = 60000;
+
 // Application State
 class VideoEditorApp {
   private mediaClips: Map<string, VideoClip> = new Map();
   private timelineClips: Map<string, TimelineClip> = new Map();
+  // Waveform peaks by media path; null while loading (or if extraction failed)
+  private waveforms: Map<string, WaveformData | null> = new Map();
+  // Filmstrip frames by media path; null while loading (or if extraction failed)
+  private filmstrips: Map<string, Filmstrip | null> = new Map();
+  // Proxies being made or that failed, by media id (a finished proxy is the clip's proxyPath)
+  private proxyStatus: Map<string, 'generating' | 'failed'> = new Map();
   private selectedMediaClipId: string | null = null;
   private selectedTimelineClipId: string | null = null;
   private currentTime: number = 0;
@@ -42,14 +195,47 @@ class VideoEditorApp {
   // Preview mode: 'media' = previewing media library clip, 'timeline' = playing timeline composition
   private previewMode: 'media' | 'timeline' = 'media';
   private timelinePlaybackTime: number = 0;
-  private currentTimelineClipId: string | null = null;
+
+  // Export range markers (timeline seconds); null means the timeline start/end
+  private inPoint: number | null = null;
+  private outPoint: number | null = null;
+
+  // Settings used for the last export (and the preview frame shape)
+  private exportSettings: ExportSettings = { ...DEFAULT_EXPORT_SETTINGS };
+  private exportPresets: ExportPreset[] = [];
+  private isExporting = false;
+  private exportPanelState: 'idle' | 'running' | 'complete' | 'error' = 'idle';
+  private exportOutputPath: string | null = null;
+
+  // The selected clip as it was before the inspector edit in progress (one undo step per edit)
+  private inspectorEdit: { before: TimelineClip; label: string } | null = null;
+
+  // Path of the open .clipforge file (null until first saved or opened)
+  private projectPath: string | null = null;
+
+  // Undo/redo stack for timeline edits
+  private history = new EditHistory(() => this.onHistoryChange());
+
+  // Autosave state
+  private hasUnsavedSnapshot = false;
+  private autosaveTimeout: number | null = null;
 
   // Recording state
   private mediaRecorder: MediaRecorder | null = null;
-  private recordedChunks: Blob[] = [];
+  // Recorders for the screen and webcam files kept alongside a picture-in-picture recording
+  private partRecorders: MediaRecorder[] = [];
   private recordingStartTime: number = 0;
   private recordingInterval: number | null = null;
+  // Seconds recorded before the current stretch (the recording was paused and resumed)
+  private recordedTime = 0;
+  private recordingOptions: RecordingOptions = { ...DEFAULT_RECORDING_OPTIONS };
+  private cancelCountdown: (() => void) | null = null;
   private currentRecordingStream: MediaStream | null = null;
+  private recordingAudioSettings: RecordingAudioSettings = { ...DEFAULT_RECORDING_AUDIO };
+  private recordingAudio: RecordingAudioMixer | null = null;
+  private recordingCapturesDesktop = false;
+  private levelMeterFrame: number | null = null;
+  private recordingProcessingCancelled = false;
 
   // Picture-in-picture recording state
   private pipCanvas: HTMLCanvasElement | null = null;
@@ -57,45 +243,131 @@ class VideoEditorApp {
   private pipAnimationFrame: number | null = null;
   private screenVideoElement: HTMLVideoElement | null = null;
   private webcamVideoElement: HTMLVideoElement | null = null;
+  private pipSourceStreams: MediaStream[] = [];
+  private pipLayout: PipLayout = { ...DEFAULT_PIP_LAYOUT };
+  private pipPreviewVideo: HTMLVideoElement | null = null;
+  private pipPreviewFrame: number | null = null;
 
   // DOM Elements
   private previewVideo: HTMLVideoElement;
+  private previewCanvas: HTMLCanvasElement;
+  private compositor: PreviewCompositor;
   private previewPlaceholder: HTMLElement;
   private mediaClipsContainer: HTMLElement;
   private timelineContainer: HTMLElement;
   private playhead: HTMLElement;
   private seekBar: HTMLInputElement;
   private timeDisplay: HTMLElement;
+  private historyList: HTMLElement;
+  private rangeOverlay: HTMLElement;
+  private rangeLabel: HTMLElement;
 
   constructor() {
     this.initElements();
     this.initEventListeners();
     this.setupExportListeners();
+    window.electronAPI.onMenuAction((action) => this.onMenuAction(action));
+    this.updateWindowTitle();
+    this.renderHistory();
+    this.startAutosave();
+    this.checkForRecovery();
   }
 
   private initElements() {
     this.previewVideo = document.getElementById('preview-video') as HTMLVideoElement;
+    this.previewCanvas = document.getElementById('preview-canvas') as HTMLCanvasElement;
+    this.compositor = new PreviewCompositor(
+      this.previewCanvas,
+      (time) => this.onTimelineTimeUpdate(time),
+      () => this.onTimelineEnded()
+    );
     this.previewPlaceholder = document.getElementById('preview-placeholder') as HTMLElement;
     this.mediaClipsContainer = document.getElementById('media-clips') as HTMLElement;
     this.timelineContainer = document.getElementById('timeline-container') as HTMLElement;
     this.playhead = document.getElementById('playhead') as HTMLElement;
     this.seekBar = document.getElementById('seek-bar') as HTMLInputElement;
     this.timeDisplay = document.getElementById('time-display') as HTMLElement;
+    this.historyList = document.getElementById('history-list') as HTMLElement;
+    this.rangeOverlay = document.getElementById('timeline-range') as HTMLElement;
+    this.rangeLabel = document.getElementById('range-label') as HTMLElement;
   }
 
   private initEventListeners() {
     // Import button
     document.getElementById('import-btn')?.addEventListener('click', () => this.importVideos());
 
+    // Files dragged in from the OS import into the library
+    const mediaLibrary = document.getElementById('media-library') as HTMLElement;
+    mediaLibrary.addEventListener('dragover', (e) => {
+      if (!this.isFileDrag(e)) return;
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+      mediaLibrary.classList.add('drop-target');
+    });
+    mediaLibrary.addEventListener('dragleave', (e) => {
+      if (!mediaLibrary.contains(e.relatedTarget as Node | null)) mediaLibrary.classList.remove('drop-target');
+    });
+    mediaLibrary.addEventListener('drop', (e) => {
+      mediaLibrary.classList.remove('drop-target');
+      const paths = this.getDroppedPaths(e);
+      if (paths.length === 0) return;
+      e.preventDefault();
+      this.importDroppedFiles(paths).catch((error) => {
+        console.error('Error importing dropped files:', error);
+        alert(`Failed to import dropped files: ${error}`);
+      });
+    });
+
+    // Files dropped anywhere else would make the window navigate to them
+    document.addEventListener('dragover', (e) => e.preventDefault());
+    document.addEventListener('drop', (e) => e.preventDefault());
+
     // Recording buttons
     document.getElementById('record-screen-btn')?.addEventListener('click', () => this.startScreenRecording());
     document.getElementById('record-webcam-btn')?.addEventListener('click', () => this.startWebcamRecording());
     document.getElementById('record-pip-btn')?.addEventListener('click', () => this.startPictureInPictureRecording());
     document.getElementById('stop-recording-btn')?.addEventListener('click', () => this.stopRecording());
+    document.getElementById('pause-recording-btn')?.addEventListener('click', () => this.toggleRecordingPause());
+    document.getElementById('recording-countdown')?.addEventListener('click', () => this.stopRecording());
+    document.getElementById('pip-layout-btn')?.addEventListener('click', () => this.toggleRecordingLayoutPanel());
+    ['pip-mode', 'pip-position', 'pip-size', 'pip-shape', 'pip-border', 'pip-border-color', 'pip-shadow'].forEach((id) =>
+      document.getElementById(id)?.addEventListener('input', () => this.readPipLayoutForm())
+    );
+    const pipPreview = document.getElementById('pip-preview') as HTMLCanvasElement;
+    pipPreview.addEventListener('pointerdown', (e) => this.onPipPreviewPointer(e));
+    pipPreview.addEventListener('pointermove', (e) => this.onPipPreviewPointer(e));
+    window.electronAPI.onRecordingStopShortcut(() => this.stopRecording());
+    window.electronAPI.onRecordingProcessProgress((percent) => this.updateRecordingProcessing(percent));
+    document
+      .getElementById('cancel-recording-processing')
+      ?.addEventListener('click', () => this.cancelRecordingProcessing());
+    ['recording-countdown-select', 'recording-time-limit', 'recording-separate-files', 'recording-format'].forEach((id) =>
+      document.getElementById(id)?.addEventListener('input', () => this.readRecordingOptions())
+    );
     document.getElementById('cancel-recording')?.addEventListener('click', () => this.closeRecordingModal());
+    document
+      .getElementById('start-webcam-recording')
+      ?.addEventListener('click', () => this.startWebcamRecordingWithAudio());
+    ['recording-microphone', 'recording-system-audio', 'recording-microphone-gain', 'recording-system-gain'].forEach(
+      (id) => document.getElementById(id)?.addEventListener('input', () => this.readRecordingAudioSettings())
+    );
 
     // Export button
-    document.getElementById('export-btn')?.addEventListener('click', () => this.exportVideo());
+    document.getElementById('export-btn')?.addEventListener('click', () => this.openExportDialog());
+    document.getElementById('cancel-export')?.addEventListener('click', () => this.closeExportDialog());
+    document.getElementById('confirm-export')?.addEventListener('click', () => this.confirmExport());
+    document.getElementById('export-preset')?.addEventListener('change', (e) => {
+      this.applyExportPreset((e.target as HTMLSelectElement).value);
+    });
+    document.getElementById('save-preset-btn')?.addEventListener('click', () => this.saveExportPreset());
+    document.getElementById('delete-preset-btn')?.addEventListener('click', () => this.deleteExportPreset());
+    document.querySelectorAll('.settings-grid select:not(#export-preset), .settings-grid input[type="number"]').forEach((field) => {
+      // Editing any setting by hand means the form no longer matches a preset
+      field.addEventListener('change', () => {
+        (document.getElementById('export-preset') as HTMLSelectElement).value = '';
+        this.updateExportFormState();
+      });
+    });
 
     // Seek bar
     this.seekBar.addEventListener('input', (e) => {
@@ -111,10 +383,24 @@ class VideoEditorApp {
     document.getElementById('zoom-in-btn')?.addEventListener('click', () => this.zoomTimeline(1.2));
     document.getElementById('zoom-out-btn')?.addEventListener('click', () => this.zoomTimeline(0.8));
 
+    // Transitions
+    document.getElementById('add-transition-btn')?.addEventListener('click', () => this.applyTransitionToSelection());
+    document.getElementById('remove-transition-btn')?.addEventListener('click', () => {
+      if (this.selectedTimelineClipId) this.removeTransition(this.selectedTimelineClipId);
+    });
+
+    // Text clips
+    document.getElementById('add-text-btn')?.addEventListener('click', () => this.addTextClip());
+    this.initInspector();
+
+    // Export range
+    document.getElementById('clear-range-btn')?.addEventListener('click', () => this.clearExportRange());
+
     // Drag and drop on timeline tracks
     const tracks = document.querySelectorAll('.track-content');
     tracks.forEach((track) => {
       track.addEventListener('dragover', (e) => this.onTrackDragOver(e as DragEvent));
+      track.addEventListener('dragleave', (e) => this.onTrackDragLeave(e as DragEvent));
       track.addEventListener('drop', (e) => this.onTrackDrop(e as DragEvent));
     });
 
@@ -126,17 +412,38 @@ class VideoEditorApp {
   }
 
   private setupExportListeners() {
-    window.electronAPI.onExportProgress((progress) => {
-      console.log(`Export progress: ${progress}%`);
-    });
-
-    window.electronAPI.onExportComplete((outputPath) => {
-      alert(`Video exported successfully to: ${outputPath}`);
+    window.electronAPI.onExportProgress((progress) => this.updateExportProgress(progress));
+    window.electronAPI.onExportComplete((outputPath) => this.onExportFinished(outputPath));
+    window.electronAPI.onExportError((error) => this.onExportFailed(error));
+    window.electronAPI.onExportCancelled(() => this.closeExportPanel());
+
+    document.getElementById('cancel-export-btn')?.addEventListener('click', () => this.cancelExport());
+    document.getElementById('reveal-export-btn')?.addEventListener('click', () => {
+      if (this.exportOutputPath) window.electronAPI.showItemInFolder(this.exportOutputPath);
     });
+    document.getElementById('import-export-btn')?.addEventListener('click', () => this.importExportResult());
+    document.getElementById('close-export-panel')?.addEventListener('click', () => this.closeExportPanel());
+  }
 
-    window.electronAPI.onExportError((error) => {
-      alert(`Export error: ${error}`);
-    });
+  private onMenuAction(action: string) {
+    switch (action) {
+      case 'new':
+        this.newProject();
+        break;
+      case 'open':
+        this.openProject();
+        break;
+      case 'save':
+        this.saveProject(false);
+        break;
+      case 'saveAs':
+        this.saveProject(true);
+        break;
+      case 'undo':
+      case 'redo':
+        this.onUndoRedo(action);
+        break;
+    }
   }
 
   async importVideos() {
@@ -157,28 +464,91 @@ class VideoEditorApp {
         return;
       }
 
-      for (const filePath of filePaths) {
-        console.log('Processing file:', filePath);
-        try {
-          const metadata = await window.electronAPI.getVideoMetadata(filePath);
-          console.log('Got metadata:', metadata);
-          this.addMediaClip(metadata);
-        } catch (err) {
-          console.error(`Error processing ${filePath}:`, err);
-          alert(`Failed to import ${filePath}: ${err}`);
-        }
-      }
+      await this.importFiles(filePaths);
     } catch (error) {
       console.error('Error importing videos:', error);
       alert(`Failed to import videos: ${error}`);
     }
   }
 
+  // Probe each file and add it to the library; everything that couldn't be imported is reported together
+  private async importFiles(filePaths: string[], unsupported: string[] = []): Promise<VideoClip[]> {
+    const imported: VideoClip[] = [];
+    const failed: string[] = [];
+
+    for (const filePath of filePaths) {
+      console.log('Processing file:', filePath);
+      try {
+        const metadata = await window.electronAPI.getVideoMetadata(filePath);
+        console.log('Got metadata:', metadata);
+        this.addMediaClip(metadata);
+        imported.push(metadata);
+      } catch (err) {
+        console.error(`Error processing ${filePath}:`, err);
+        // Drop ipcRenderer's "Error invoking remote method ..." wrapper
+        const reason = String(err).replace(/^Error: Error invoking remote method '[^']+': /, '');
+        failed.push(`${this.getFileName(filePath)} (${reason})`);
+      }
+    }
+
+    this.reportImportProblems(unsupported.map((filePath) => this.getFileName(filePath)), failed);
+    return imported;
+  }
+
+  private reportImportProblems(unsupported: string[], failed: string[]) {
+    if (unsupported.length === 0 && failed.length === 0) return;
+
+    const list = (items: string[]) => {
+      const lines = items.slice(0, MAX_LISTED_IMPORT_PROBLEMS).map((item) => `  • ${item}`);
+      if (items.length > MAX_LISTED_IMPORT_PROBLEMS) {
+        lines.push(`  …and ${items.length - MAX_LISTED_IMPORT_PROBLEMS} more`);
+      }
+      return lines.join('\n');
+    };
+
+    const sections: string[] = [];
+    if (unsupported.length > 0) {
+      sections.push(`Not a supported media file (${unsupported.length}):\n${list(unsupported)}`);
+    }
+    if (failed.length > 0) {
+      sections.push(`Could not be read (${failed.length}):\n${list(failed)}`);
+    }
+    alert(`Some files were not imported.\n\n${sections.join('\n\n')}`);
+  }
+
+  private isFileDrag(e: DragEvent): boolean {
+    return Array.from(e.dataTransfer?.types ?? []).includes('Files');
+  }
+
+  // Paths of the files and folders dropped from the OS (empty for drags from inside the app)
+  private getDroppedPaths(e: DragEvent): string[] {
+    return Array.from(e.dataTransfer?.files ?? [])
+      .map((file) => window.electronAPI.getPathForFile(file))
+      .filter((filePath) => filePath !== '');
+  }
+
+  private async importDroppedFiles(paths: string[]): Promise<VideoClip[]> {
+    const { files, unsupported } = await window.electronAPI.expandDroppedPaths(paths);
+    return this.importFiles(files, unsupported);
+  }
+
   private addMediaClip(clip: VideoClip) {
     this.mediaClips.set(clip.id, clip);
+    // Start extracting peaks and frames now so they are ready when the clip reaches the timeline.
+    // Images have neither; they are their own single frame.
+    if (clip.kind !== 'image' && !this.waveforms.has(clip.path)) {
+      this.loadWaveform(clip.path);
+    }
+    if (clip.kind !== 'image' && clip.width > 0 && !this.filmstrips.has(clip.path)) {
+      this.loadFilmstrip(clip.path);
+    }
     this.renderMediaClip(clip);
+    if (clip.needsProxy) {
+      this.createProxy(clip);
+    }
     this.updateExportButton();
     this.updatePreviewControls();
+    this.markEdited();
   }
 
   private renderMediaClip(clip: VideoClip) {
@@ -193,11 +563,68 @@ class VideoEditorApp {
 
     const info = document.createElement('div');
     info.className = 'media-clip-info';
-    info.textContent = `${this.formatTime(clip.duration)} | ${clip.width}x${clip.height} | ${this.formatFileSize(clip.size)}`;
+    if (clip.kind === 'audio') {
+      clipElement.classList.add('audio-media');
+      const sampleRate = clip.sampleRate ? `${(clip.sampleRate / 1000).toFixed(1)} kHz` : 'Unknown rate';
+      info.textContent = `${this.formatTime(clip.duration)} | ${sampleRate} | ${this.formatChannels(clip.channels)} | ${this.formatFileSize(clip.size)}`;
+    } else if (clip.kind === 'image') {
+      info.textContent = `Image | ${clip.width}x${clip.height} | ${this.formatFileSize(clip.size)}`;
+    } else {
+      const frameRate = clip.frameRate
+        ? ` | ${this.formatFrameRate(clip.frameRate)} fps${clip.variableFrameRate ? ' VFR' : ''}`
+        : '';
+      info.textContent = `${this.formatTime(clip.duration)} | ${clip.width}x${clip.height}${frameRate} | ${this.formatFileSize(clip.size)}`;
+    }
+
+    // Poster frame; hovering scrubs through the filmstrip frames
+    const poster = document.createElement('img');
+    poster.className = 'media-clip-poster';
+    poster.draggable = false;
+    if (clip.kind === 'image') {
+      poster.dataset.poster = `file://${clip.path}`;
+      poster.src = poster.dataset.poster;
+    } else if (clip.width > 0) {
+      window.electronAPI
+        .getPoster(clip.path)
+        .then((posterPath) => {
+          poster.dataset.poster = `file://${posterPath}`;
+          poster.src = poster.dataset.poster;
+        })
+        .catch((error) => console.error(`Failed to load poster for ${clip.path}:`, error));
+    }
+
+    clipElement.addEventListener('mousemove', (e) => {
+      const filmstrip = this.filmstrips.get(clip.path);
+      if (!filmstrip || filmstrip.frames.length === 0) return;
 
+      const rect = clipElement.getBoundingClientRect();
+      const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+      const index = Math.min(filmstrip.frames.length - 1, Math.floor(fraction * filmstrip.frames.length));
+      poster.src = `file://${filmstrip.frames[index]}`;
+    });
+    clipElement.addEventListener('mouseleave', () => {
+      if (poster.dataset.poster) poster.src = poster.dataset.poster;
+    });
+
+    clipElement.appendChild(poster);
     clipElement.appendChild(name);
     clipElement.appendChild(info);
 
+    // Video can be previewed through a proxy: the badge shows its state and makes one on demand
+    if (!clip.kind || clip.kind === 'video') {
+      const proxyBadge = document.createElement('button');
+      proxyBadge.className = 'proxy-badge';
+      proxyBadge.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (!clip.proxyPath && this.proxyStatus.get(clip.id) !== 'generating') {
+          this.createProxy(clip);
+        }
+      });
+      proxyBadge.addEventListener('dblclick', (e) => e.stopPropagation());
+      clipElement.appendChild(proxyBadge);
+      this.updateProxyBadge(clip);
+    }
+
     // Click to preview
     clipElement.addEventListener('click', () => this.selectMediaClip(clip.id));
 
@@ -223,6 +650,7 @@ class VideoEditorApp {
     clipElement?.classList.add('selected');
 
     this.selectedMediaClipId = clipId;
+    this.updateMediaInfo();
 
     // Switch to media preview mode
     this.previewMode = 'media';
@@ -230,8 +658,10 @@ class VideoEditorApp {
 
     // Preview the clip
     const clip = this.mediaClips.get(clipId);
-    if (clip) {
-      this.loadVideoPreview(clip.path);
+    if (clip?.kind === 'image') {
+      this.loadImagePreview(clip.path);
+    } else if (clip) {
+      this.loadVideoPreview(this.getPreviewPath(clip));
     }
 
     this.updatePreviewControls();
@@ -239,13 +669,128 @@ class VideoEditorApp {
 
   private loadVideoPreview(videoPath: string) {
     // Load local video file directly (webSecurity disabled for dev)
+    this.previewVideo.removeAttribute('poster');
     this.previewVideo.src = `file://${videoPath}`;
     this.previewVideo.classList.add('active');
+    this.previewCanvas.classList.remove('active');
     this.previewPlaceholder.style.display = 'none';
     console.log('Loading video from:', this.previewVideo.src);
   }
 
+  // Media Info
+
+  private updateMediaInfo() {
+    const clip = this.selectedMediaClipId ? this.mediaClips.get(this.selectedMediaClipId) : undefined;
+    (document.getElementById('media-info-panel') as HTMLElement).style.display = clip ? 'block' : 'none';
+    if (!clip) return;
+
+    const isImage = clip.kind === 'image';
+    const rows: [string, string | undefined][] = [
+      ['Type', isImage ? 'Image' : clip.kind === 'audio' ? 'Audio' : 'Video'],
+      ['Duration', isImage ? undefined : this.formatTime(clip.duration)],
+      ['Resolution', clip.width > 0 ? `${clip.width}x${clip.height}` : undefined],
+      ['Rotation', clip.rotation ? `${clip.rotation}° (shown upright)` : undefined],
+      [
+        'Frame Rate',
+        clip.frameRate ? `${this.formatFrameRate(clip.frameRate)} fps${clip.variableFrameRate ? ' (variable)' : ''}` : undefined,
+      ],
+      ['Video Codec', clip.videoCodec],
+      ['Pixel Format', clip.pixelFormat],
+      ['Bitrate', clip.bitrate ? `${(clip.bitrate / 1_000_000).toFixed(1)} Mbps` : undefined],
+      ['Audio Codec', clip.audioCodec ?? (clip.hasAudio === false && !isImage ? 'No audio' : undefined)],
+      ['Sample Rate', clip.sampleRate ? `${(clip.sampleRate / 1000).toFixed(1)} kHz` : undefined],
+      ['Channels', clip.channels ? this.formatChannels(clip.channels) : undefined],
+      ['File Size', this.formatFileSize(clip.size)],
+      ['Created', clip.creationTime ? new Date(clip.creationTime).toLocaleString() : undefined],
+    ];
+
+    const list = document.getElementById('media-info') as HTMLElement;
+    list.replaceChildren(
+      ...rows
+        .filter((row): row is [string, string] => row[1] !== undefined)
+        .flatMap(([label, value]) => {
+          const term = document.createElement('dt');
+          term.textContent = label;
+          const detail = document.createElement('dd');
+          detail.textContent = value;
+          return [term, detail];
+        })
+    );
+
+    const warning = document.getElementById('media-info-warning') as HTMLElement;
+    warning.style.display = clip.variableFrameRate ? '' : 'none';
+  }
+
+  // Proxies
+
+  // The file the preview plays for a media clip: its proxy once there is one
+  private getPreviewPath(clip: VideoClip): string {
+    return clip.proxyPath ?? clip.path;
+  }
+
+  // `linkedPath` is the proxy the project was saved with, if any; finding it again isn't an edit
+  private createProxy(clip: VideoClip, linkedPath?: string) {
+    this.proxyStatus.set(clip.id, 'generating');
+    this.updateProxyBadge(clip);
+
+    window.electronAPI
+      .createProxy(clip.path)
+      .then((proxyPath) => {
+        this.proxyStatus.delete(clip.id);
+        // The project may have been closed while the proxy was being made
+        if (this.mediaClips.get(clip.id) !== clip) return;
+
+        clip.proxyPath = proxyPath;
+        this.updateProxyBadge(clip);
+        this.refreshTimelinePreview();
+        if (proxyPath !== linkedPath) {
+          this.markEdited();
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to create proxy for ${clip.path}:`, error);
+        this.proxyStatus.set(clip.id, 'failed');
+        this.updateProxyBadge(clip);
+      });
+  }
+
+  private updateProxyBadge(clip: VideoClip) {
+    const badge = document.querySelector<HTMLElement>(`.media-clip[data-clip-id="${clip.id}"] .proxy-badge`);
+    if (!badge) return;
+
+    const status = clip.proxyPath ? 'ready' : this.proxyStatus.get(clip.id) ?? 'none';
+    badge.className = `proxy-badge proxy-${status}`;
+    badge.textContent = { ready: 'Proxy', generating: 'Proxy…', failed: 'Proxy failed', none: 'Make proxy' }[status];
+    badge.title = {
+      ready: 'Previewing a lightweight proxy; export uses the original',
+      generating: 'Creating a proxy for smooth preview',
+      failed: 'Proxy creation failed; click to retry',
+      none: 'Create a lightweight proxy for smoother preview',
+    }[status];
+  }
+
+  // Images are shown as the player's poster; there is nothing to play
+  private loadImagePreview(imagePath: string) {
+    this.previewVideo.removeAttribute('src');
+    this.previewVideo.load();
+    this.previewVideo.poster = `file://${imagePath}`;
+    this.previewVideo.classList.add('active');
+    this.previewCanvas.classList.remove('active');
+    this.previewPlaceholder.style.display = 'none';
+  }
+
+  // Switch the preview to the composited timeline canvas
+  private showTimelinePreview() {
+    this.previewMode = 'timeline';
+    this.previewVideo.pause();
+    this.previewVideo.classList.remove('active');
+    this.previewCanvas.classList.add('active');
+    this.previewPlaceholder.style.display = 'none';
+    this.seekBar.max = this.getTimelineDuration().toString();
+  }
+
   private onVideoLoaded() {
+    if (this.previewMode !== 'media') return;
     this.seekBar.max = this.previewVideo.duration.toString();
     this.updateTimeDisplay();
   }
@@ -268,48 +813,37 @@ class VideoEditorApp {
       return;
     }
 
-    // Switch to timeline mode and start timeline playback
-    this.previewMode = 'timeline';
-    this.isPlaying = true;
-    this.startTimelinePlayback();
+    // Switch to timeline mode and start composited playback from the playhead
+    this.showTimelinePreview();
+    this.compositor.seek(this.timelinePlaybackTime);
+    this.compositor.play();
+    this.isPlaying = this.compositor.isPlaying();
   }
 
   private pause() {
     this.isPlaying = false;
     this.previewVideo.pause();
+    this.compositor.pause();
   }
 
   private seek(time: number) {
+    if (this.previewMode === 'timeline') {
+      this.seekTimeline(time);
+      return;
+    }
+
     this.previewVideo.currentTime = time;
     this.currentTime = time;
   }
 
   private onTimeUpdate() {
-    if (this.previewMode === 'timeline') {
-      // In timeline mode, calculate timeline playback time
-      const currentClip = this.getClipAtTime(this.timelinePlaybackTime);
-
-      if (currentClip) {
-        const clipLocalTime = this.previewVideo.currentTime - currentClip.trimStart;
-        this.timelinePlaybackTime = currentClip.startTime + clipLocalTime;
-
-        // Check if we've reached the end of this clip
-        if (this.previewVideo.currentTime >= currentClip.trimEnd) {
-          // Move to next clip
-          this.timelinePlaybackTime = currentClip.startTime + currentClip.duration;
-          this.updateTimelinePlayback();
-        }
-      }
+    // The video element only drives media preview; the compositor reports timeline time
+    if (this.previewMode !== 'media') return;
 
-      this.updatePlayhead();
-      this.updateTimeDisplay();
-    } else {
-      // Media preview mode
-      this.currentTime = this.previewVideo.currentTime;
-      this.seekBar.value = this.currentTime.toString();
-      this.updateTimeDisplay();
-      this.updatePlayhead();
-    }
+    this.currentTime = this.previewVideo.currentTime;
+    this.seekBar.value = this.currentTime.toString();
+    this.updateTimeDisplay();
+    this.updatePlayhead();
   }
 
   private updateTimeDisplay() {
@@ -330,9 +864,12 @@ class VideoEditorApp {
     this.playhead.style.left = `${position}px`;
   }
 
-  private addToTimeline(clipId: string, track: number) {
+  // Adds after the last clip on the track, or at `requestedStart` if the clip fits there
+  private addToTimeline(clipId: string, requestedTrack: number, requestedStart?: number): TimelineClip | undefined {
     const clip = this.mediaClips.get(clipId);
-    if (!clip) return;
+    if (!clip) return undefined;
+
+    const track = this.getTrackForMedia(clip, requestedTrack);
 
     // Find the end of the last clip on this track
     let startTime = 0;
@@ -344,6 +881,9 @@ class VideoEditorApp {
         }
       }
     });
+    if (requestedStart !== undefined && this.isValidPosition(requestedStart, clip.duration, track)) {
+      startTime = requestedStart;
+    }
 
     const timelineClip: TimelineClip = {
       id: `timeline-${Date.now()}-${Math.random().toString(36).substring(7)}`,
@@ -358,24 +898,87 @@ class VideoEditorApp {
 
     this.timelineClips.set(timelineClip.id, timelineClip);
     this.renderTimelineClip(timelineClip);
+    this.refreshTimelinePreview();
     this.updateExportButton();
     this.updatePreviewControls();
+
+    this.recordClipChange('Add clip', [], [timelineClip]);
+    return timelineClip;
+  }
+
+  // Audio files only go on audio tracks and video only on video tracks
+  private getTrackForMedia(clip: VideoClip, requestedTrack: number): number {
+    if (clip.kind === 'audio' && !isAudioTrack(requestedTrack)) return VIDEO_TRACK_COUNT;
+    if (clip.kind !== 'audio' && isAudioTrack(requestedTrack)) return 0;
+    return requestedTrack;
   }
 
   private renderTimelineClip(clip: TimelineClip) {
     const track = document.querySelector(`#track-${clip.track + 1} .track-content`);
     if (!track) return;
 
+    track.appendChild(this.createTimelineClipElement(clip));
+  }
+
+  // Redraw one clip in place, keeping its stacking order on the track
+  private updateTimelineClipElement(clip: TimelineClip) {
+    const element = document.querySelector(`[data-timeline-clip-id="${clip.id}"]`);
+    if (element) {
+      element.replaceWith(this.createTimelineClipElement(clip));
+    } else {
+      this.renderTimelineClip(clip);
+    }
+  }
+
+  private createTimelineClipElement(clip: TimelineClip): HTMLElement {
     const clipElement = document.createElement('div');
     clipElement.className = 'timeline-clip';
     clipElement.dataset.timelineClipId = clip.id;
+    clipElement.classList.toggle('selected', clip.id === this.selectedTimelineClipId);
 
     const width = clip.duration * this.pixelsPerSecond * (this.timelineZoom / 100);
     const left = clip.startTime * this.pixelsPerSecond * (this.timelineZoom / 100);
 
     clipElement.style.width = `${width}px`;
     clipElement.style.left = `${left}px`;
-    clipElement.textContent = clip.videoClip.name;
+    clipElement.classList.toggle('text-clip', Boolean(clip.text));
+    clipElement.classList.toggle('audio-clip', clip.videoClip?.kind === 'audio');
+    clipElement.classList.toggle('image-clip', clip.videoClip?.kind === 'image');
+    clipElement.classList.toggle('muted', Boolean(clip.audio?.muted));
+
+    if (clip.videoClip) {
+      if (clip.videoClip.width > 0) {
+        const filmstrip = document.createElement('div');
+        filmstrip.className = 'clip-filmstrip';
+        this.drawFilmstrip(filmstrip, clip);
+        clipElement.appendChild(filmstrip);
+      }
+
+      // Images are silent
+      if (clip.videoClip.kind !== 'image') {
+        const waveform = document.createElement('canvas');
+        waveform.className = 'clip-waveform';
+        this.drawWaveform(waveform, clip);
+        clipElement.appendChild(waveform);
+        clipElement.appendChild(this.createVolumeLine(clip));
+      }
+    }
+
+    const label = document.createElement('span');
+    label.className = 'timeline-clip-label';
+    label.textContent = clip.text ? clip.text.content.split('\n')[0] : clip.videoClip?.name ?? '';
+    clipElement.appendChild(label);
+
+    // The overlap with the previous clip, drawn over its tail
+    if (clip.transition) {
+      const transitionElement = document.createElement('div');
+      transitionElement.className = 'timeline-transition';
+      transitionElement.style.width = `${clip.transition.duration * this.pixelsPerSecond * (this.timelineZoom / 100)}px`;
+      transitionElement.textContent = TRANSITION_LABELS[clip.transition.type];
+      transitionElement.title = `${TRANSITION_LABELS[clip.transition.type]} (${clip.transition.duration.toFixed(1)}s)`;
+      clipElement.classList.add('has-transition');
+      clipElement.appendChild(transitionElement);
+    }
 
     // Add trim handles
     const leftHandle = document.createElement('div');
@@ -393,10 +996,146 @@ class VideoEditorApp {
     this.setupTrimHandle(leftHandle, clip, 'left');
     this.setupTrimHandle(rightHandle, clip, 'right');
 
-    track.appendChild(clipElement);
+    return clipElement;
+  }
+
+  // Draw the part of the source's waveform between the clip's in and out points, one bar per pixel
+  private drawWaveform(canvas: HTMLCanvasElement, clip: TimelineClip) {
+    if (!clip.videoClip) return;
+
+    const waveform = this.waveforms.get(clip.videoClip.path);
+    if (waveform === undefined) {
+      this.loadWaveform(clip.videoClip.path);
+      return;
+    }
+    if (!waveform || waveform.peaks.length === 0) return;
+
+    const width = Math.max(
+      1,
+      Math.min(MAX_WAVEFORM_WIDTH, Math.round(clip.duration * this.pixelsPerSecond * (this.timelineZoom / 100)))
+    );
+    canvas.width = width;
+    canvas.height = WAVEFORM_HEIGHT;
+
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+
+    const { peaks, peaksPerSecond } = waveform;
+    const secondsPerPixel = clip.duration / width;
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor((clip.trimStart + x * secondsPerPixel) * peaksPerSecond);
+      const to = Math.max(from + 1, Math.floor((clip.trimStart + (x + 1) * secondsPerPixel) * peaksPerSecond));
+
+      let peak = 0;
+      for (let i = from; i < Math.min(to, peaks.length); i++) {
+        peak = Math.max(peak, peaks[i]);
+      }
+
+      const barHeight = Math.max(1, (peak / 255) * WAVEFORM_HEIGHT);
+      ctx.fillRect(x, (WAVEFORM_HEIGHT - barHeight) / 2, 1, barHeight);
+    }
+  }
+
+  // Peaks are extracted once per file (and cached on disk by the main process)
+  private loadWaveform(path: string) {
+    this.waveforms.set(path, null);
+
+    window.electronAPI
+      .getWaveform(path)
+      .then((waveform) => {
+        this.waveforms.set(path, waveform);
+        this.getClipElementsForMedia(path).forEach(({ element, clip }) => {
+          const canvas = element.querySelector<HTMLCanvasElement>('.clip-waveform');
+          if (canvas) this.drawWaveform(canvas, clip);
+        });
+      })
+      .catch((error) => console.error(`Failed to load waveform for ${path}:`, error));
+  }
+
+  // Fill the clip with frames from its in point onward; zooming in spreads each tile over less time
+  private drawFilmstrip(container: HTMLElement, clip: TimelineClip) {
+    if (!clip.videoClip) return;
+
+    // An image is its own only frame
+    const filmstrip = clip.videoClip.kind === 'image'
+      ? { interval: Infinity, frames: [clip.videoClip.path] }
+      : this.filmstrips.get(clip.videoClip.path);
+    if (filmstrip === undefined) {
+      this.loadFilmstrip(clip.videoClip.path);
+      return;
+    }
+    if (!filmstrip || filmstrip.frames.length === 0) return;
+
+    const pixelsPerSecond = this.pixelsPerSecond * (this.timelineZoom / 100);
+    const { width, height } = clip.videoClip;
+    const tileWidth = FILMSTRIP_TILE_HEIGHT * (height > 0 ? width / height : 16 / 9);
+    const tileCount = Math.min(MAX_FILMSTRIP_TILES, Math.ceil((clip.duration * pixelsPerSecond) / tileWidth));
+
+    const tiles = Array.from({ length: tileCount }, (_, index) => {
+      // Each tile shows the frame nearest the source time at its center
+      const time = clip.trimStart + ((index + 0.5) * tileWidth) / pixelsPerSecond;
+      const frame = Math.min(filmstrip.frames.length - 1, Math.max(0, Math.round(time / filmstrip.interval)));
+
+      const tile = document.createElement('img');
+      tile.src = `file://${filmstrip.frames[frame]}`;
+      tile.style.width = `${tileWidth}px`;
+      tile.draggable = false;
+      return tile;
+    });
+    container.replaceChildren(...tiles);
+  }
+
+  private loadFilmstrip(path: string) {
+    this.filmstrips.set(path, null);
+
+    window.electronAPI
+      .getFilmstrip(path)
+      .then((filmstrip) => {
+        this.filmstrips.set(path, filmstrip);
+        this.getClipElementsForMedia(path).forEach(({ element, clip }) => {
+          const container = element.querySelector<HTMLElement>('.clip-filmstrip');
+          if (container) this.drawFilmstrip(container, clip);
+        });
+      })
+      .catch((error) => console.error(`Failed to load filmstrip for ${path}:`, error));
+  }
+
+  // Rendered timeline clips that use the given media file
+  private getClipElementsForMedia(path: string): { element: HTMLElement; clip: TimelineClip }[] {
+    return Array.from(document.querySelectorAll<HTMLElement>('.timeline-clip')).flatMap((element) => {
+      const clip = this.timelineClips.get(element.dataset.timelineClipId ?? '');
+      return clip?.videoClip?.path === path ? [{ element, clip }] : [];
+    });
+  }
+
+  // The clip's volume as a line across it, with its fades as ramps down to the bottom edge (silence)
+  private createVolumeLine(clip: TimelineClip): SVGSVGElement {
+    const audio = clip.audio ?? DEFAULT_CLIP_AUDIO;
+    const duration = Math.max(clip.duration, 0.001);
+    const fadeIn = Math.min(audio.fadeIn, duration);
+    const fadeOut = Math.min(audio.fadeOut, duration);
+    // Drawn in seconds across and 0 (loudest) to 1 (silent) down; 0 dB sits about a quarter of the way down
+    const level = audio.muted ? 1 : 0.05 + (0.9 * (MAX_VOLUME_DB - audio.volume)) / (MAX_VOLUME_DB - MIN_VOLUME_DB);
+
+    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    svg.classList.add('volume-line');
+    svg.setAttribute('viewBox', `0 0 ${duration} 1`);
+    svg.setAttribute('preserveAspectRatio', 'none');
+
+    const line = document.createElementNS('http://www.w3.org/2000/svg', 'polyline');
+    line.setAttribute('vector-effect', 'non-scaling-stroke');
+    line.setAttribute(
+      'points',
+      `0,${fadeIn > 0 ? 1 : level} ${fadeIn},${level} ${duration - fadeOut},${level} ${duration},${fadeOut > 0 ? 1 : level}`
+    );
+    svg.appendChild(line);
+
+    return svg;
   }
 
   private selectTimelineClip(clipId: string) {
+    this.commitInspectorEdit();
+
     // Deselect previous
     document.querySelectorAll('.timeline-clip').forEach((el) => el.classList.remove('selected'));
 
@@ -405,6 +1144,8 @@ class VideoEditorApp {
     clipElement?.classList.add('selected');
 
     this.selectedTimelineClipId = clipId;
+    this.updateTransitionControls();
+    this.updateInspector();
 
     // Pause any playback
     this.pause();
@@ -413,24 +1154,19 @@ class VideoEditorApp {
     const tClip = this.timelineClips.get(clipId);
     if (tClip) {
       // Switch to timeline mode and seek to this clip's start
-      this.previewMode = 'timeline';
-      this.timelinePlaybackTime = tClip.startTime;
-      this.currentTimelineClipId = tClip.id;
-
-      // Load clip video and seek to trim start
-      this.loadVideoPreview(tClip.videoClip.path);
-      this.previewVideo.currentTime = tClip.trimStart;
-
-      // Update UI
-      this.updatePlayhead();
-      this.updateTimeDisplay();
+      this.seekTimeline(tClip.startTime);
     }
   }
 
   private onKeyDown(e: KeyboardEvent) {
     // Don't handle shortcuts if user is typing in an input field
     const target = e.target as HTMLElement;
-    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') {
+      return;
+    }
+
+    // Modified keys belong to the application menu (Cmd/Ctrl+S, Cmd/Ctrl+O, ...)
+    if (e.metaKey || e.ctrlKey) {
       return;
     }
 
@@ -452,6 +1188,33 @@ class VideoEditorApp {
       return;
     }
 
+    // I / O keys: Mark export in/out points at playhead
+    if (e.key === 'i' || e.key === 'I') {
+      e.preventDefault();
+      this.setInPoint(this.timelinePlaybackTime);
+      return;
+    }
+
+    if (e.key === 'o' || e.key === 'O') {
+      e.preventDefault();
+      this.setOutPoint(this.timelinePlaybackTime);
+      return;
+    }
+
+    // T key: Add (or update) a transition into the selected clip
+    if (e.key === 't' || e.key === 'T') {
+      e.preventDefault();
+      this.applyTransitionToSelection();
+      return;
+    }
+
+    // X key: Clear in/out points
+    if (e.key === 'x' || e.key === 'X') {
+      e.preventDefault();
+      this.clearExportRange();
+      return;
+    }
+
     // Delete or Backspace: Remove selected timeline clip
     if (e.key === 'Delete' || e.key === 'Backspace') {
       if (this.selectedTimelineClipId) {
@@ -500,29 +1263,14 @@ class VideoEditorApp {
     const x = e.clientX - rect.left - 80; // Subtract track label width
     const time = Math.max(0, x / (this.pixelsPerSecond * (this.timelineZoom / 100)));
 
-    // Update timeline playback time
-    this.timelinePlaybackTime = time;
-
-    // Find the clip at this time and update preview
+    // Show the composited frame at this time
     if (this.timelineClips.size > 0) {
-      this.previewMode = 'timeline';
-      const clip = this.getClipAtTime(time);
-
-      if (clip) {
-        this.currentTimelineClipId = clip.id;
-
-        // Load video and seek to the correct position within the clip
-        const clipLocalTime = time - clip.startTime;
-        const videoTime = clip.trimStart + clipLocalTime;
-
-        this.previewVideo.src = `file://${clip.videoClip.path}`;
-        this.previewVideo.currentTime = videoTime;
-        this.previewVideo.classList.add('active');
-        this.previewPlaceholder.style.display = 'none';
-      }
+      this.seekTimeline(time);
+      return;
     }
 
     // Update UI
+    this.timelinePlaybackTime = time;
     this.updatePlayhead();
     this.updateTimeDisplay();
   }
@@ -541,17 +1289,22 @@ class VideoEditorApp {
     // Clear selection if this was the selected clip
     if (this.selectedTimelineClipId === clipId) {
       this.selectedTimelineClipId = null;
-    }
-
-    // If this was the current playback clip, clear it
-    if (this.currentTimelineClipId === clipId) {
-      this.currentTimelineClipId = null;
+      this.updateInspector();
     }
 
     // Update UI
+    this.refreshTimelinePreview();
     this.updateExportButton();
     this.updatePreviewControls();
 
+    // Clips that blended out of the deleted clip lose their transition
+    const orphans = this.dropOrphanedTransitions();
+    if (orphans.after.length > 0) {
+      this.rerenderTimeline();
+    }
+
+    this.recordClipChange('Delete clip', [clip, ...orphans.before], orphans.after);
+
     console.log(`Deleted clip ${clipId} from timeline`);
   }
 
@@ -562,8 +1315,11 @@ class VideoEditorApp {
       return;
     }
 
-    // Find the clip at the playhead position
-    const clipToSplit = this.getClipAtTime(this.timelinePlaybackTime);
+    // Split the selected clip if it's under the playhead, otherwise the Track 1 clip there
+    const selectedClip = this.selectedTimelineClipId ? this.timelineClips.get(this.selectedTimelineClipId) : undefined;
+    const clipToSplit = selectedClip && this.getClipAtTime(this.timelinePlaybackTime, selectedClip.track) === selectedClip
+      ? selectedClip
+      : this.getClipAtTime(this.timelinePlaybackTime);
 
     if (!clipToSplit) {
       console.log('No clip at playhead position');
@@ -587,11 +1343,19 @@ class VideoEditorApp {
       id: Date.now().toString() + Math.random().toString(36).substring(7),
       clipId: clipToSplit.clipId,
       videoClip: clipToSplit.videoClip,
+      color: clipToSplit.color,
+      // The fade-out stays with the end of the clip
+      audio: clipToSplit.audio && { ...clipToSplit.audio, fadeOut: 0 },
+      text: clipToSplit.text,
+      // Each part keeps its share of the pan/zoom
+      motion: clipToSplit.motion && sliceMotion(clipToSplit.motion, 0, splitPointInClip / clipToSplit.duration),
       startTime: clipToSplit.startTime,
       duration: splitPointInClip,
       trimStart: clipToSplit.trimStart,
       trimEnd: clipToSplit.trimStart + splitPointInClip,
       track: clipToSplit.track,
+      // The first half keeps the transition into the clip
+      transition: clipToSplit.transition,
     };
 
     // Create the second clip (from split point to end)
@@ -599,6 +1363,10 @@ class VideoEditorApp {
       id: Date.now().toString() + Math.random().toString(36).substring(7) + '_2',
       clipId: clipToSplit.clipId,
       videoClip: clipToSplit.videoClip,
+      color: clipToSplit.color,
+      audio: clipToSplit.audio && { ...clipToSplit.audio, fadeIn: 0 },
+      text: clipToSplit.text,
+      motion: clipToSplit.motion && sliceMotion(clipToSplit.motion, splitPointInClip / clipToSplit.duration, 1),
       startTime: clipToSplit.startTime + splitPointInClip,
       duration: clipToSplit.duration - splitPointInClip,
       trimStart: clipToSplit.trimStart + splitPointInClip,
@@ -616,9 +1384,14 @@ class VideoEditorApp {
     // Clear selection
     this.selectedTimelineClipId = null;
 
+    // A split inside a transition's overlap leaves nothing to blend from
+    const orphans = this.dropOrphanedTransitions();
+
     // Re-render the entire timeline
     this.rerenderTimeline();
 
+    this.recordClipChange('Split clip', [clipToSplit, ...orphans.before], [firstClip, secondClip, ...orphans.after]);
+
     console.log(`Split clip at ${splitPointInClip.toFixed(2)}s`);
   }
 
@@ -626,6 +1399,7 @@ class VideoEditorApp {
     let isDragging = false;
     let startX = 0;
     let startLeft = 0;
+    let clipBeforeDrag: TimelineClip | null = null;
 
     const onMouseDown = (e: MouseEvent) => {
       if ((e.target as HTMLElement).classList.contains('clip-handle')) return;
@@ -636,6 +1410,9 @@ class VideoEditorApp {
       isDragging = true;
       startX = e.clientX;
       startLeft = parseFloat(element.style.left || '0');
+      clipBeforeDrag = { ...clip };
+      document.addEventListener('mousemove', onMouseMove);
+      document.addEventListener('mouseup', onMouseUp);
       e.preventDefault();
     };
 
@@ -659,16 +1436,27 @@ class VideoEditorApp {
     };
 
     const onMouseUp = () => {
+      // Only listen to the document during a drag, so re-rendered clips leave no listeners behind
+      document.removeEventListener('mousemove', onMouseMove);
+      document.removeEventListener('mouseup', onMouseUp);
+
       if (isDragging) {
         isDragging = false;
+        // Moving a clip away from its neighbour breaks the transitions between them
+        const orphans = this.dropOrphanedTransitions();
+
         // Re-render timeline to ensure everything is in sync
         this.rerenderTimeline();
+
+        // The whole drag gesture is a single undo step
+        if (clipBeforeDrag && clipBeforeDrag.startTime !== clip.startTime) {
+          this.recordClipChange('Move clip', [clipBeforeDrag, ...orphans.before], [clip, ...orphans.after]);
+        }
+        clipBeforeDrag = null;
       }
     };
 
     element.addEventListener('mousedown', onMouseDown);
-    document.addEventListener('mousemove', onMouseMove);
-    document.addEventListener('mouseup', onMouseUp);
   }
 
   private getSnapPoints(excludeClip: TimelineClip): number[] {
@@ -682,6 +1470,14 @@ class VideoEditorApp {
     // Add end times of all clips as snap points
     for (const clip of trackClips) {
       snapPoints.push(clip.startTime + clip.duration);
+
+      // Positions that restore a transition's overlap, from either side of it
+      if (excludeClip.transition) {
+        snapPoints.push(clip.startTime + clip.duration - excludeClip.transition.duration);
+      }
+      if (clip.transition) {
+        snapPoints.push(clip.startTime + clip.transition.duration - excludeClip.duration);
+      }
     }
 
     return snapPoints;
@@ -698,7 +1494,7 @@ class VideoEditorApp {
       const distance = Math.abs(time - snapPoint);
 
       // Check if this snap point is valid (no overlap)
-      if (this.isValidPosition(snapPoint, clipDuration, track, excludeClip?.id)) {
+      if (snapPoint >= 0 && this.isValidPosition(snapPoint, clipDuration, track, excludeClip?.id, excludeClip?.transition)) {
         if (distance < minDistance) {
           minDistance = distance;
           bestSnapPoint = snapPoint;
@@ -709,7 +1505,13 @@ class VideoEditorApp {
     return bestSnapPoint;
   }
 
-  private isValidPosition(startTime: number, duration: number, track: number, excludeClipId?: string): boolean {
+  private isValidPosition(
+    startTime: number,
+    duration: number,
+    track: number,
+    excludeClipId?: string,
+    transition?: ClipTransition
+  ): boolean {
     const endTime = startTime + duration;
 
     // Check for overlaps with existing clips
@@ -719,6 +1521,15 @@ class VideoEditorApp {
 
       const clipEnd = clip.startTime + clip.duration;
 
+      // The only overlaps allowed are exact transition overlaps: this clip blending out of `clip`...
+      if (transition && clip.startTime < startTime && Math.abs(clipEnd - (startTime + transition.duration)) < EDGE_TOLERANCE) {
+        continue;
+      }
+      // ...or `clip` blending out of this one
+      if (clip.transition && clip.startTime > startTime && Math.abs(endTime - (clip.startTime + clip.transition.duration)) < EDGE_TOLERANCE) {
+        continue;
+      }
+
       // Check if there's any overlap
       if (
         (startTime >= clip.startTime && startTime < clipEnd) ||
@@ -738,61 +1549,549 @@ class VideoEditorApp {
 
     // Re-render all clips
     this.timelineClips.forEach((clip) => this.renderTimelineClip(clip));
+    this.updateRangeDisplay();
+    this.updateTransitionControls();
+    this.updateInspector();
+    this.refreshTimelinePreview();
   }
 
-  private setupTrimHandle(handle: HTMLElement, clip: TimelineClip, side: 'left' | 'right') {
-    let isDragging = false;
-    let startX = 0;
-    let startValue = 0;
+  // Transitions
 
-    const onMouseDown = (e: MouseEvent) => {
-      // Select the clip when clicking trim handles
-      this.selectTimelineClip(clip.id);
+  // The clip a transition on `clip` blends from: its current partner, or the clip ending where it starts
+  private getTransitionTarget(clip: TimelineClip): TimelineClip | undefined {
+    // Text clips animate in on their own, and audio tracks have no transitions
+    if (clip.text || isAudioTrack(clip.track)) return undefined;
 
-      isDragging = true;
-      startX = e.clientX;
-      startValue = side === 'left' ? clip.trimStart : clip.trimEnd;
-      e.stopPropagation();
-      e.preventDefault();
-    };
+    const clips = Array.from(this.timelineClips.values()).filter((other) => !other.text);
+    if (clip.transition) {
+      return getTransitionPartner(clip, clips);
+    }
 
-    const onMouseMove = (e: MouseEvent) => {
-      if (!isDragging) return;
+    return clips.find(
+      (other) =>
+        other.id !== clip.id &&
+        other.track === clip.track &&
+        Math.abs(other.startTime + other.duration - clip.startTime) < EDGE_TOLERANCE
+    );
+  }
 
-      const deltaX = e.clientX - startX;
-      const deltaTime = deltaX / (this.pixelsPerSecond * (this.timelineZoom / 100));
+  private applyTransitionToSelection() {
+    if (!this.selectedTimelineClipId) {
+      alert('Select the clip to transition into first');
+      return;
+    }
 
-      const clipElement = document.querySelector(`[data-timeline-clip-id="${clip.id}"]`) as HTMLElement;
-      if (!clipElement) return;
+    const type = (document.getElementById('transition-type') as HTMLSelectElement).value as TransitionType;
+    const duration = parseFloat((document.getElementById('transition-duration') as HTMLInputElement).value);
+    this.applyTransition(this.selectedTimelineClipId, type, duration);
+  }
 
-      if (side === 'left') {
-        const newTrimStart = Math.max(0, Math.min(clip.trimEnd - 0.1, startValue + deltaTime));
-        clip.trimStart = newTrimStart;
+  private applyTransition(clipId: string, type: TransitionType, requestedDuration: number) {
+    const clip = this.timelineClips.get(clipId);
+    if (!clip) return;
 
-        const newWidth = (clip.trimEnd - clip.trimStart) * this.pixelsPerSecond * (this.timelineZoom / 100);
-        const newLeft = clip.startTime * this.pixelsPerSecond * (this.timelineZoom / 100) +
-                        (newTrimStart * this.pixelsPerSecond * (this.timelineZoom / 100));
+    const previous = this.getTransitionTarget(clip);
+    if (!previous) {
+      alert('Transitions go between two touching clips on the same track. Select the second clip.');
+      return;
+    }
 
-        clipElement.style.width = `${newWidth}px`;
-        clipElement.style.left = `${newLeft}px`;
-      } else {
-        const newTrimEnd = Math.min(clip.videoClip.duration, Math.max(clip.trimStart + 0.1, startValue + deltaTime));
-        clip.trimEnd = newTrimEnd;
+    // Each clip gives up at most half its length, so a clip's incoming and outgoing transitions never meet
+    const maxDuration = Math.min(previous.duration, clip.duration) / 2;
+    if (maxDuration < MIN_TRANSITION_DURATION) {
+      alert('These clips are too short for a transition');
+      return;
+    }
+
+    const duration = Math.min(maxDuration, Math.max(MIN_TRANSITION_DURATION, requestedDuration || 0));
+    const shift = duration - (clip.transition?.duration ?? 0);
+    this.setTransition(clip, { type, duration }, shift, clip.transition ? 'Change transition' : 'Add transition');
+  }
+
+  private removeTransition(clipId: string) {
+    const clip = this.timelineClips.get(clipId);
+    if (!clip?.transition) return;
+
+    this.setTransition(clip, undefined, -clip.transition.duration, 'Remove transition');
+  }
+
+  // Set a clip's transition, rippling it and everything after it on every track left by `shift` seconds
+  // so the overlap grows or shrinks while overlays, text and audio stay in sync with the base video
+  private setTransition(clip: TimelineClip, transition: ClipTransition | undefined, shift: number, label: string) {
+    this.pause();
+
+    const affected = Array.from(this.timelineClips.values()).filter((other) => other.startTime >= clip.startTime);
+    const before = affected.map((other) => ({ ...other }));
+
+    affected.forEach((other) => {
+      other.startTime = Math.max(0, other.startTime - shift);
+    });
+
+    // A clip on another track that spans the edit point stays put, so the clips after it may not fit
+    const blocked = affected.some(
+      (other) =>
+        other.track !== clip.track &&
+        !this.isValidPosition(other.startTime, other.duration, other.track, other.id, other.transition)
+    );
+    if (blocked) {
+      affected.forEach((other, index) => {
+        other.startTime = before[index].startTime;
+      });
+      alert('Clips on other tracks have no room to move with this transition. Make room after the clips that span it.');
+      return;
+    }
+    clip.transition = transition;
+
+    this.rerenderTimeline();
+    this.recordClipChange(label, before, affected);
+  }
+
+  // Remove transitions that no longer have a clip to blend from (after a move, trim, split or delete)
+  private dropOrphanedTransitions(): { before: TimelineClip[]; after: TimelineClip[] } {
+    const clips = Array.from(this.timelineClips.values());
+    const before: TimelineClip[] = [];
+    const after: TimelineClip[] = [];
+
+    clips.forEach((clip) => {
+      if (clip.transition && !getTransitionPartner(clip, clips)) {
+        before.push({ ...clip });
+        clip.transition = undefined;
+        after.push(clip);
+      }
+    });
+
+    return { before, after };
+  }
+
+  private updateTransitionControls() {
+    const clip = this.selectedTimelineClipId ? this.timelineClips.get(this.selectedTimelineClipId) : undefined;
+    const addButton = document.getElementById('add-transition-btn') as HTMLButtonElement;
+    const removeButton = document.getElementById('remove-transition-btn') as HTMLButtonElement;
+
+    addButton.disabled = !clip || !this.getTransitionTarget(clip);
+    addButton.textContent = clip?.transition ? 'Update Transition' : 'Add Transition';
+    removeButton.disabled = !clip?.transition;
+
+    if (clip?.transition) {
+      (document.getElementById('transition-type') as HTMLSelectElement).value = clip.transition.type;
+      (document.getElementById('transition-duration') as HTMLInputElement).value = clip.transition.duration.toFixed(1);
+    }
+  }
+
+  // Text Clips
+
+  // Add a text clip at the playhead, on the top track if it has room there
+  private addTextClip() {
+    this.pause();
+
+    const startTime = this.timelinePlaybackTime;
+    const track = [1, 0].find((candidate) => this.getRoomAt(startTime, candidate) >= MIN_TEXT_DURATION);
+    if (track === undefined) {
+      alert('There is no room for a text clip at the playhead. Move the playhead to an empty spot.');
+      return;
+    }
+
+    const duration = Math.min(DEFAULT_TEXT_DURATION, this.getRoomAt(startTime, track));
+    const textClip: TimelineClip = {
+      id: `timeline-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+      clipId: '',
+      text: { ...DEFAULT_TEXT_OVERLAY },
+      startTime,
+      duration,
+      trimStart: 0,
+      trimEnd: duration,
+      track,
+    };
+
+    this.timelineClips.set(textClip.id, textClip);
+    this.rerenderTimeline();
+    this.updateExportButton();
+    this.updatePreviewControls();
+    this.selectTimelineClip(textClip.id);
+
+    this.recordClipChange('Add text', [], [textClip]);
+
+    // Ready to type over the placeholder
+    const content = document.getElementById('text-content') as HTMLTextAreaElement;
+    content.focus();
+    content.select();
+  }
+
+  // Seconds free on `track` from `time` until the next clip (0 if a clip covers `time`)
+  private getRoomAt(time: number, track: number): number {
+    let room = Infinity;
+    for (const clip of this.timelineClips.values()) {
+      if (clip.track !== track) continue;
+      if (clip.startTime <= time && clip.startTime + clip.duration > time) return 0;
+      if (clip.startTime > time) room = Math.min(room, clip.startTime - time);
+    }
+    return room;
+  }
+
+  private moveTextClip(track: number) {
+    this.commitInspectorEdit();
+
+    const clip = this.getSelectedClip();
+    if (!clip?.text || clip.track === track) return;
+
+    if (!this.isValidPosition(clip.startTime, clip.duration, track, clip.id)) {
+      alert(`Track ${track + 1} already has a clip there`);
+      this.updateInspector();
+      return;
+    }
+
+    const before = { ...clip };
+    clip.track = track;
+    this.rerenderTimeline();
+    this.recordClipChange('Move text', [before], [clip]);
+  }
+
+  // Clip Inspector
+
+  private getSelectedClip(): TimelineClip | undefined {
+    return this.selectedTimelineClipId ? this.timelineClips.get(this.selectedTimelineClipId) : undefined;
+  }
+
+  private initInspector() {
+    const fontSelect = document.getElementById('text-font') as HTMLSelectElement;
+    TEXT_FONT_FAMILIES.forEach((family) => {
+      const option = document.createElement('option');
+      option.value = family;
+      option.textContent = family;
+      option.style.fontFamily = family;
+      fontSelect.appendChild(option);
+    });
+
+    // Fields update the preview as they change and become one undo step when committed
+    document.querySelectorAll('#text-inspector [id^="text-"]:not(#text-track)').forEach((field) => {
+      field.addEventListener('input', () => {
+        this.previewInspectorEdit('Edit text', (clip) => {
+          clip.text = this.readTextInspector();
+        });
+      });
+      field.addEventListener('change', () => this.commitInspectorEdit());
+    });
+    document.querySelectorAll('#audio-inspector [id^="audio-"]').forEach((field) => {
+      field.addEventListener('input', () => {
+        this.updateAudioValueLabel();
+        this.previewInspectorEdit('Audio', (clip) => {
+          const audio = this.readAudioInspector();
+          clip.audio = isDefaultAudio(audio) ? undefined : audio;
+        });
+      });
+      field.addEventListener('change', () => this.commitInspectorEdit());
+    });
+    document.querySelectorAll('#motion-inspector [id^="motion-"]').forEach((field) => {
+      field.addEventListener('input', () => {
+        this.updateMotionInspectorState();
+        this.previewInspectorEdit('Ken Burns', (clip) => {
+          clip.motion = this.readMotionInspector();
+        });
+      });
+      field.addEventListener('change', () => this.commitInspectorEdit());
+    });
+    document.querySelectorAll('#color-inspector [id^="color-"]').forEach((field) => {
+      field.addEventListener('input', () => {
+        this.updateColorValueLabels();
+        this.previewInspectorEdit('Color correction', (clip) => {
+          const color = this.readColorInspector();
+          clip.color = isNeutralColor(color) ? undefined : color;
+        });
+      });
+      field.addEventListener('change', () => this.commitInspectorEdit());
+    });
+
+    document.getElementById('text-track')?.addEventListener('change', (e) => {
+      this.moveTextClip(parseInt((e.target as HTMLSelectElement).value, 10));
+    });
+    document.getElementById('reset-color-btn')?.addEventListener('click', () => this.resetClipColor());
+  }
+
+  private readTextInspector(): TextOverlay {
+    const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value;
+    const checked = (id: string) => (document.getElementById(id) as HTMLInputElement).checked;
+
+    return {
+      content: value('text-content'),
+      fontFamily: value('text-font'),
+      fontSize: Math.max(8, parseInt(value('text-size'), 10) || DEFAULT_TEXT_OVERLAY.fontSize),
+      bold: checked('text-bold'),
+      color: value('text-color'),
+      background: checked('text-background'),
+      backgroundColor: value('text-background-color'),
+      backgroundOpacity: parseFloat(value('text-background-opacity')),
+      position: value('text-position') as TextPosition,
+      animation: value('text-animation') as TextAnimation,
+    };
+  }
+
+  private readAudioInspector(): ClipAudio {
+    const value = (id: string) => parseFloat((document.getElementById(id) as HTMLInputElement).value);
+
+    return {
+      volume: value('audio-volume'),
+      muted: (document.getElementById('audio-muted') as HTMLInputElement).checked,
+      fadeIn: Math.max(0, value('audio-fade-in') || 0),
+      fadeOut: Math.max(0, value('audio-fade-out') || 0),
+    };
+  }
+
+  private updateAudioValueLabel() {
+    const { volume } = this.readAudioInspector();
+    (document.getElementById('audio-volume-value') as HTMLElement).textContent =
+      `${volume > 0 ? '+' : ''}${volume.toFixed(1)} dB`;
+  }
+
+  // Undefined while Ken Burns is off
+  private readMotionInspector(): ImageMotion | undefined {
+    if (!(document.getElementById('motion-enabled') as HTMLInputElement).checked) return undefined;
+
+    const value = (id: string) => parseFloat((document.getElementById(id) as HTMLInputElement).value);
+    return {
+      start: { zoom: value('motion-start-zoom'), x: value('motion-start-x'), y: value('motion-start-y') },
+      end: { zoom: value('motion-end-zoom'), x: value('motion-end-x'), y: value('motion-end-y') },
+    };
+  }
+
+  // Zoom labels, and the keyframe fields only apply while Ken Burns is on
+  private updateMotionInspectorState() {
+    const enabled = (document.getElementById('motion-enabled') as HTMLInputElement).checked;
+    document.querySelectorAll<HTMLInputElement>('#motion-inspector input[type="range"]').forEach((field) => {
+      field.disabled = !enabled;
+    });
+    (['start', 'end'] as const).forEach((key) => {
+      const zoom = parseFloat((document.getElementById(`motion-${key}-zoom`) as HTMLInputElement).value);
+      (document.getElementById(`motion-${key}-zoom-value`) as HTMLElement).textContent = `${zoom.toFixed(2)}×`;
+    });
+  }
+
+  private readColorInspector(): ColorCorrection {
+    const value = (id: string) => parseFloat((document.getElementById(id) as HTMLInputElement).value);
+
+    return {
+      brightness: value('color-brightness'),
+      contrast: value('color-contrast'),
+      saturation: value('color-saturation'),
+      gamma: value('color-gamma'),
+      hue: value('color-hue'),
+      look: (document.getElementById('color-look') as HTMLSelectElement).value as ColorLook,
+    };
+  }
+
+  private updateColorValueLabels() {
+    const color = this.readColorInspector();
+    (['brightness', 'contrast', 'saturation', 'gamma'] as const).forEach((key) => {
+      (document.getElementById(`color-${key}-value`) as HTMLElement).textContent = color[key].toFixed(2);
+    });
+    (document.getElementById('color-hue-value') as HTMLElement).textContent = `${color.hue}°`;
+  }
+
+  private updateInspector() {
+    const clip = this.getSelectedClip();
+    (document.getElementById('inspector-panel') as HTMLElement).style.display = clip ? 'block' : 'none';
+    (document.getElementById('text-inspector') as HTMLElement).style.display = clip?.text ? '' : 'none';
+    (document.getElementById('motion-inspector') as HTMLElement).style.display =
+      clip?.videoClip?.kind === 'image' ? '' : 'none';
+    // Audio and color correction apply to media (images are silent); text has its own color
+    (document.getElementById('audio-inspector') as HTMLElement).style.display =
+      clip && !clip.text && clip.videoClip?.kind !== 'image' ? '' : 'none';
+    (document.getElementById('color-inspector') as HTMLElement).style.display =
+      clip && !clip.text && clip.videoClip?.kind !== 'audio' ? '' : 'none';
+
+    // Don't overwrite the fields while they're being edited
+    if (!clip || this.inspectorEdit) return;
+
+    const setValue = (id: string, value: string) => {
+      (document.getElementById(id) as HTMLInputElement).value = value;
+    };
+    const setChecked = (id: string, checked: boolean) => {
+      (document.getElementById(id) as HTMLInputElement).checked = checked;
+    };
+
+    if (clip.text) {
+      setValue('text-content', clip.text.content);
+      setValue('text-font', clip.text.fontFamily);
+      setValue('text-size', clip.text.fontSize.toString());
+      setChecked('text-bold', clip.text.bold);
+      setValue('text-color', clip.text.color);
+      setChecked('text-background', clip.text.background);
+      setValue('text-background-color', clip.text.backgroundColor);
+      setValue('text-background-opacity', clip.text.backgroundOpacity.toString());
+      setValue('text-position', clip.text.position);
+      setValue('text-animation', clip.text.animation);
+      setValue('text-track', clip.track.toString());
+      return;
+    }
+
+    // Turning Ken Burns on starts from the keyframes shown, which default to a slow push in
+    const motion = clip.motion ?? DEFAULT_IMAGE_MOTION;
+    setChecked('motion-enabled', Boolean(clip.motion));
+    (['start', 'end'] as const).forEach((key) => {
+      setValue(`motion-${key}-zoom`, motion[key].zoom.toString());
+      setValue(`motion-${key}-x`, motion[key].x.toString());
+      setValue(`motion-${key}-y`, motion[key].y.toString());
+    });
+    this.updateMotionInspectorState();
+
+    const audio = clip.audio ?? DEFAULT_CLIP_AUDIO;
+    setValue('audio-volume', audio.volume.toString());
+    setChecked('audio-muted', audio.muted);
+    setValue('audio-fade-in', audio.fadeIn.toString());
+    setValue('audio-fade-out', audio.fadeOut.toString());
+    this.updateAudioValueLabel();
+
+    const color = clip.color ?? DEFAULT_COLOR_CORRECTION;
+    setValue('color-look', color.look);
+    setValue('color-brightness', color.brightness.toString());
+    setValue('color-contrast', color.contrast.toString());
+    setValue('color-saturation', color.saturation.toString());
+    setValue('color-gamma', color.gamma.toString());
+    setValue('color-hue', color.hue.toString());
+    this.updateColorValueLabels();
+    (document.getElementById('reset-color-btn') as HTMLButtonElement).disabled = !clip.color;
+  }
+
+  // Apply a live inspector change to the selected clip, remembering its state from before the edit
+  private previewInspectorEdit(label: string, apply: (clip: TimelineClip) => void) {
+    const clip = this.getSelectedClip();
+    if (!clip) return;
+
+    if (!this.inspectorEdit) {
+      this.inspectorEdit = { before: { ...clip }, label };
+    }
+    apply(clip);
+
+    // Only the edited clip's element needs redrawing; rebuilding the whole timeline on every slider tick is too slow
+    this.updateTimelineClipElement(clip);
+    this.refreshTimelinePreview();
+  }
+
+  // Record the inspector edit in progress, if any, as a single history step
+  private commitInspectorEdit() {
+    const edit = this.inspectorEdit;
+    if (!edit) return;
+    this.inspectorEdit = null;
+
+    const clip = this.timelineClips.get(edit.before.id);
+    if (clip) {
+      this.recordClipChange(edit.label, [edit.before], [clip]);
+    }
+    this.updateInspector();
+  }
+
+  private resetClipColor() {
+    this.commitInspectorEdit();
+
+    const clip = this.getSelectedClip();
+    if (!clip?.color) return;
+
+    const before = { ...clip };
+    clip.color = undefined;
+    this.rerenderTimeline();
+    this.recordClipChange('Reset color', [before], [clip]);
+  }
+
+  private setupTrimHandle(handle: HTMLElement, clip: TimelineClip, side: 'left' | 'right') {
+    let isDragging = false;
+    let startX = 0;
+    let startValue = 0;
+    let clipBeforeTrim: TimelineClip | null = null;
+
+    const onMouseDown = (e: MouseEvent) => {
+      // Select the clip when clicking trim handles
+      this.selectTimelineClip(clip.id);
+
+      isDragging = true;
+      startX = e.clientX;
+      startValue = side === 'left' ? clip.trimStart : clip.trimEnd;
+      clipBeforeTrim = { ...clip };
+      document.addEventListener('mousemove', onMouseMove);
+      document.addEventListener('mouseup', onMouseUp);
+      e.stopPropagation();
+      e.preventDefault();
+    };
+
+    const onMouseMove = (e: MouseEvent) => {
+      if (!isDragging) return;
+
+      const deltaX = e.clientX - startX;
+      const deltaTime = deltaX / (this.pixelsPerSecond * (this.timelineZoom / 100));
+
+      const clipElement = document.querySelector(`[data-timeline-clip-id="${clip.id}"]`) as HTMLElement;
+      if (!clipElement) return;
+
+      if (side === 'left') {
+        const newTrimStart = Math.max(0, Math.min(clip.trimEnd - 0.1, startValue + deltaTime));
+        clip.trimStart = newTrimStart;
+
+        const newWidth = (clip.trimEnd - clip.trimStart) * this.pixelsPerSecond * (this.timelineZoom / 100);
+        const newLeft = clip.startTime * this.pixelsPerSecond * (this.timelineZoom / 100) +
+                        (newTrimStart * this.pixelsPerSecond * (this.timelineZoom / 100));
+
+        clipElement.style.width = `${newWidth}px`;
+        clipElement.style.left = `${newLeft}px`;
+      } else {
+        // Text and image clips have no source to run out of
+        const sourceDuration = clip.videoClip && clip.videoClip.kind !== 'image' ? clip.videoClip.duration : Infinity;
+        let newTrimEnd = Math.min(sourceDuration, Math.max(clip.trimStart + 0.1, startValue + deltaTime));
+
+        // The end can't run into the next clip on the track; stop at its start, or where the end already is
+        if (!this.isValidPosition(clip.startTime, newTrimEnd - clip.trimStart, clip.track, clip.id, clip.transition)) {
+          const nextStart = Math.min(
+            ...Array.from(this.timelineClips.values())
+              .filter((other) => other.track === clip.track && other.id !== clip.id && other.startTime > clip.startTime)
+              .map((other) => other.startTime)
+          );
+          const roomEnd = clip.trimStart + (nextStart - clip.startTime);
+          newTrimEnd =
+            roomEnd > clip.trimStart && this.isValidPosition(clip.startTime, roomEnd - clip.trimStart, clip.track, clip.id, clip.transition)
+              ? Math.min(newTrimEnd, roomEnd)
+              : clip.trimEnd;
+        }
+        clip.trimEnd = newTrimEnd;
 
         const newWidth = (clip.trimEnd - clip.trimStart) * this.pixelsPerSecond * (this.timelineZoom / 100);
         clipElement.style.width = `${newWidth}px`;
       }
 
       clip.duration = clip.trimEnd - clip.trimStart;
+
+      // Keep the filmstrip, waveform and volume line in step with the new in/out points
+      const filmstrip = clipElement.querySelector<HTMLElement>('.clip-filmstrip');
+      if (filmstrip) {
+        this.drawFilmstrip(filmstrip, clip);
+      }
+      const waveform = clipElement.querySelector<HTMLCanvasElement>('.clip-waveform');
+      if (waveform) {
+        this.drawWaveform(waveform, clip);
+        clipElement.querySelector('.volume-line')?.replaceWith(this.createVolumeLine(clip));
+      }
     };
 
     const onMouseUp = () => {
+      // Only listen to the document during a trim, so re-rendered clips leave no listeners behind
+      document.removeEventListener('mousemove', onMouseMove);
+      document.removeEventListener('mouseup', onMouseUp);
+
+      if (!isDragging) return;
       isDragging = false;
+
+      // Trimming the outgoing clip's end breaks the transition out of it
+      const orphans = this.dropOrphanedTransitions();
+      if (orphans.after.length > 0) {
+        this.rerenderTimeline();
+      } else {
+        this.refreshTimelinePreview();
+      }
+
+      // The whole trim gesture is a single undo step
+      if (clipBeforeTrim && (clipBeforeTrim.trimStart !== clip.trimStart || clipBeforeTrim.trimEnd !== clip.trimEnd)) {
+        this.recordClipChange('Trim clip', [clipBeforeTrim, ...orphans.before], [clip, ...orphans.after]);
+      }
+      clipBeforeTrim = null;
     };
 
     handle.addEventListener('mousedown', onMouseDown);
-    document.addEventListener('mousemove', onMouseMove);
-    document.addEventListener('mouseup', onMouseUp);
   }
 
   private onTrackDragOver(e: DragEvent) {
@@ -800,92 +2099,440 @@ class VideoEditorApp {
     if (e.dataTransfer) {
       e.dataTransfer.dropEffect = 'copy';
     }
+    if (this.isFileDrag(e)) {
+      (e.currentTarget as HTMLElement).classList.add('drop-target');
+    }
+  }
+
+  private onTrackDragLeave(e: DragEvent) {
+    const content = e.currentTarget as HTMLElement;
+    if (!content.contains(e.relatedTarget as Node | null)) content.classList.remove('drop-target');
   }
 
   private onTrackDrop(e: DragEvent) {
     e.preventDefault();
-    const clipId = e.dataTransfer?.getData('clipId');
-    if (!clipId) return;
+    const content = e.currentTarget as HTMLElement;
+    content.classList.remove('drop-target');
 
-    const trackElement = (e.currentTarget as HTMLElement).closest('.timeline-track');
+    const trackElement = content.closest('.timeline-track');
     const trackId = trackElement?.id;
     const trackNumber = trackId ? parseInt(trackId.split('-')[1]) - 1 : 0;
 
+    // Files from the OS are imported, then laid end to end from where they were dropped
+    const paths = this.getDroppedPaths(e);
+    if (paths.length > 0) {
+      const dropTime = Math.max(
+        0,
+        (e.clientX - content.getBoundingClientRect().left) / (this.pixelsPerSecond * (this.timelineZoom / 100))
+      );
+      this.importDroppedFiles(paths)
+        .then((clips) => {
+          // Audio and video can land on different tracks, so each track keeps its own position
+          const nextStart = new Map<number, number>();
+          clips.forEach((clip) => {
+            const track = this.getTrackForMedia(clip, trackNumber);
+            const placed = this.addToTimeline(clip.id, track, nextStart.get(track) ?? dropTime);
+            if (placed) nextStart.set(placed.track, placed.startTime + placed.duration);
+          });
+        })
+        .catch((error) => {
+          console.error('Error importing dropped files:', error);
+          alert(`Failed to import dropped files: ${error}`);
+        });
+      return;
+    }
+
+    const clipId = e.dataTransfer?.getData('clipId');
+    if (!clipId) return;
+
     this.addToTimeline(clipId, trackNumber);
   }
 
   private zoomTimeline(factor: number) {
     this.timelineZoom = Math.max(50, Math.min(200, this.timelineZoom * factor));
-    document.getElementById('timeline-zoom')!.textContent = `${Math.round(this.timelineZoom)}%`;
+    this.updateZoomLabel();
 
     // Re-render all timeline clips
     document.querySelectorAll('.timeline-clip').forEach((el) => el.remove());
     this.timelineClips.forEach((clip) => this.renderTimelineClip(clip));
+    this.updateRangeDisplay();
+    this.updatePlayhead();
+  }
+
+  private updateZoomLabel() {
+    const zoomLabel = document.getElementById('timeline-zoom') as HTMLElement;
+    zoomLabel.textContent = `${Math.round(this.timelineZoom)}%`;
+  }
+
+  // Export Range (in/out points)
+  private setInPoint(time: number) {
+    this.inPoint = time;
+    if (this.outPoint !== null && this.outPoint <= time) {
+      this.outPoint = null;
+    }
+    this.updateRangeDisplay();
+    this.markEdited();
+  }
+
+  private setOutPoint(time: number) {
+    this.outPoint = time;
+    if (this.inPoint !== null && this.inPoint >= time) {
+      this.inPoint = null;
+    }
+    this.updateRangeDisplay();
+    this.markEdited();
   }
 
-  private async exportVideo() {
+  private clearExportRange() {
+    this.inPoint = null;
+    this.outPoint = null;
+    this.updateRangeDisplay();
+    this.markEdited();
+  }
+
+  // The in/out range to export, or null to export the whole timeline
+  private getExportRange(): { start: number; end: number } | null {
+    if (this.inPoint === null && this.outPoint === null) {
+      return null;
+    }
+
+    const start = this.inPoint ?? 0;
+    const end = this.outPoint ?? this.getTimelineDuration();
+    if (end - start < 0.1) {
+      return null;
+    }
+
+    return { start, end };
+  }
+
+  private updateRangeDisplay() {
+    const range = this.getExportRange();
+    const clearButton = document.getElementById('clear-range-btn') as HTMLButtonElement;
+
+    if (!range) {
+      this.rangeOverlay.style.display = 'none';
+      this.rangeLabel.textContent = '';
+      clearButton.style.display = 'none';
+      return;
+    }
+
+    const scale = this.pixelsPerSecond * (this.timelineZoom / 100);
+    this.rangeOverlay.style.display = 'block';
+    this.rangeOverlay.style.left = `${80 + range.start * scale}px`;
+    this.rangeOverlay.style.width = `${(range.end - range.start) * scale}px`;
+    this.rangeLabel.textContent = `Range ${this.formatTime(range.start)} - ${this.formatTime(range.end)}`;
+    clearButton.style.display = '';
+  }
+
+  // Export Settings
+
+  private async openExportDialog() {
     if (this.timelineClips.size === 0) {
       alert('No clips on timeline to export');
       return;
     }
 
     try {
-      // Request save path from main process
-      const clips = Array.from(this.timelineClips.values()).map((clip) => ({
-        id: clip.id,
-        clipId: clip.videoClip.path, // Send file path
-        startTime: clip.startTime,
-        duration: clip.duration,
-        trimStart: clip.trimStart,
-        trimEnd: clip.trimEnd,
-        track: clip.track,
-      }));
+      this.exportPresets = await window.electronAPI.listExportPresets();
+    } catch (error) {
+      console.error('Failed to load export presets:', error);
+      this.exportPresets = [];
+    }
+
+    // Variable frame rate sources are conformed to the export frame rate, which can drift from their sound
+    const variableFrameRate = new Set(
+      Array.from(this.timelineClips.values())
+        .filter((clip) => clip.videoClip?.variableFrameRate)
+        .map((clip) => clip.videoClip?.name)
+    );
+    const warning = document.getElementById('export-warning') as HTMLElement;
+    warning.textContent =
+      `Variable frame rate: ${Array.from(variableFrameRate).join(', ')}. These are converted to the export frame rate; ` +
+      'if picture and sound drift apart, convert them to a constant frame rate before editing.';
+    warning.style.display = variableFrameRate.size > 0 ? '' : 'none';
+
+    this.renderPresetOptions('');
+    this.fillExportForm(this.exportSettings);
+    (document.getElementById('export-modal') as HTMLElement).classList.add('active');
+  }
+
+  private closeExportDialog() {
+    (document.getElementById('export-modal') as HTMLElement).classList.remove('active');
+  }
+
+  private renderPresetOptions(selectedName: string) {
+    const select = document.getElementById('export-preset') as HTMLSelectElement;
+    select.innerHTML = '';
+
+    const custom = document.createElement('option');
+    custom.value = '';
+    custom.textContent = 'Custom';
+    select.appendChild(custom);
+
+    this.exportPresets.forEach((preset) => {
+      const option = document.createElement('option');
+      option.value = preset.name;
+      option.textContent = preset.builtIn ? preset.name : `${preset.name} (saved)`;
+      select.appendChild(option);
+    });
+
+    select.value = selectedName;
+    this.updateExportFormState();
+  }
+
+  private fillExportForm(settings: ExportSettings) {
+    (document.getElementById('export-resolution') as HTMLSelectElement).value = settings.resolution;
+    (document.getElementById('export-orientation') as HTMLSelectElement).value = settings.orientation;
+    (document.getElementById('export-frame-rate') as HTMLSelectElement).value = settings.frameRate.toString();
+    (document.getElementById('export-format') as HTMLSelectElement).value = settings.format;
+    (document.getElementById('export-quality') as HTMLSelectElement).value = settings.quality;
+    (document.getElementById('export-bitrate') as HTMLInputElement).value = settings.videoBitrate.toString();
+    this.updateExportFormState();
+  }
+
+  private readExportForm(): ExportSettings {
+    const bitrate = parseInt((document.getElementById('export-bitrate') as HTMLInputElement).value, 10);
 
-      await window.electronAPI.exportVideo({ clips });
+    return {
+      resolution: (document.getElementById('export-resolution') as HTMLSelectElement).value as ExportSettings['resolution'],
+      orientation: (document.getElementById('export-orientation') as HTMLSelectElement).value as ExportSettings['orientation'],
+      frameRate: parseInt((document.getElementById('export-frame-rate') as HTMLSelectElement).value, 10),
+      format: (document.getElementById('export-format') as HTMLSelectElement).value as ExportSettings['format'],
+      quality: (document.getElementById('export-quality') as HTMLSelectElement).value as ExportSettings['quality'],
+      videoBitrate: bitrate > 0 ? bitrate : DEFAULT_EXPORT_SETTINGS.videoBitrate,
+    };
+  }
+
+  private updateExportFormState() {
+    const quality = (document.getElementById('export-quality') as HTMLSelectElement).value;
+    (document.getElementById('export-bitrate') as HTMLInputElement).disabled = quality !== 'bitrate';
+
+    // Orientation only applies to the fixed 16:9 resolutions
+    const resolution = (document.getElementById('export-resolution') as HTMLSelectElement).value;
+    (document.getElementById('export-orientation') as HTMLSelectElement).disabled = resolution === 'source';
+
+    const presetName = (document.getElementById('export-preset') as HTMLSelectElement).value;
+    const preset = this.exportPresets.find((p) => p.name === presetName);
+    (document.getElementById('delete-preset-btn') as HTMLButtonElement).disabled = !preset || !!preset.builtIn;
+  }
+
+  private applyExportPreset(name: string) {
+    const preset = this.exportPresets.find((p) => p.name === name);
+    if (preset) {
+      this.fillExportForm(preset.settings);
+    }
+    this.updateExportFormState();
+  }
+
+  private async saveExportPreset() {
+    const nameInput = document.getElementById('preset-name') as HTMLInputElement;
+    const name = nameInput.value.trim();
+    if (!name) {
+      alert('Enter a name for the preset');
+      return;
+    }
+
+    try {
+      this.exportPresets = await window.electronAPI.saveExportPreset({ name, settings: this.readExportForm() });
+      nameInput.value = '';
+      this.renderPresetOptions(name);
+    } catch (error) {
+      console.error('Failed to save preset:', error);
+      alert(`Failed to save preset: ${error}`);
+    }
+  }
+
+  private async deleteExportPreset() {
+    const name = (document.getElementById('export-preset') as HTMLSelectElement).value;
+    const preset = this.exportPresets.find((p) => p.name === name);
+    if (!preset || preset.builtIn) return;
+
+    try {
+      this.exportPresets = await window.electronAPI.deleteExportPreset(name);
+      this.renderPresetOptions('');
+    } catch (error) {
+      console.error('Failed to delete preset:', error);
+      alert(`Failed to delete preset: ${error}`);
+    }
+  }
+
+  private async confirmExport() {
+    this.exportSettings = this.readExportForm();
+    this.closeExportDialog();
+    this.updatePreviewFrame();
+
+    const outputPath = await window.electronAPI.selectExportPath(this.exportSettings.format);
+    if (!outputPath) return;
+
+    await this.exportVideo(outputPath);
+  }
+
+  // Shape the preview canvas like the export frame so framing matches the output
+  // The export frame size; 'source' resolution follows the first media clip on the lowest track
+  private getOutputFrameSize(): { width: number; height: number } {
+    const baseClip = Array.from(this.timelineClips.values())
+      .filter((clip) => clip.videoClip && !isAudioTrack(clip.track))
+      .sort((a, b) => a.track - b.track || a.startTime - b.startTime)[0];
+
+    return getOutputSize(
+      this.exportSettings.resolution,
+      this.exportSettings.orientation,
+      baseClip?.videoClip?.width ?? 0,
+      baseClip?.videoClip?.height ?? 0
+    );
+  }
+
+  private updatePreviewFrame() {
+    const { width, height } = this.getOutputFrameSize();
+    this.compositor.setFrameSize(width, height);
+  }
+
+  private async exportVideo(outputPath: string) {
+    this.isExporting = true;
+    this.exportOutputPath = outputPath;
+    this.updateExportButton();
+    this.showExportPanel();
+
+    try {
+      // Text clips are drawn here, with the preview's canvas code, and sent as images (as are SVGs)
+      const { width, height } = this.getOutputFrameSize();
+      const clips = await Promise.all(
+        Array.from(this.timelineClips.values()).map(async (clip) => ({
+          id: clip.id,
+          clipId: clip.videoClip?.path ?? '', // Send file path
+          hasAudio: clip.videoClip?.hasAudio,
+          startTime: clip.startTime,
+          duration: clip.duration,
+          trimStart: clip.trimStart,
+          trimEnd: clip.trimEnd,
+          track: clip.track,
+          transition: clip.transition,
+          color: clip.color,
+          audio: clip.audio,
+          text: clip.text,
+          motion: clip.motion,
+          image: clip.text
+            ? await renderTextImage(clip.text, width, height)
+            : await this.rasterizeSvgClip(clip, width, height),
+        }))
+      );
+
+      await window.electronAPI.exportVideo({
+        outputPath,
+        settings: this.exportSettings,
+        clips,
+        duration: this.getTimelineDuration(),
+        range: this.getExportRange() ?? undefined,
+      });
     } catch (error) {
       console.error('Export error:', error);
-      alert(`Export failed: ${error}`);
+      // Failures inside the export job already reported their own message
+      if (this.exportPanelState === 'running') {
+        this.onExportFailed(String(error));
+      }
+    } finally {
+      this.isExporting = false;
+      this.updateExportButton();
     }
   }
 
+  // SVG clips are rasterized big enough to fill the frame at their closest zoom; other clips need nothing
+  private async rasterizeSvgClip(clip: TimelineClip, frameWidth: number, frameHeight: number) {
+    const media = clip.videoClip;
+    if (media?.kind !== 'image' || !media.path.toLowerCase().endsWith('.svg')) return undefined;
+
+    const fit = getFrameRect(frameWidth, frameHeight, media.width, media.height);
+    const zoom = clip.motion ? Math.max(clip.motion.start.zoom, clip.motion.end.zoom) : 1;
+    return rasterizeImage(`file://${media.path}`, Math.round(fit.width * zoom), Math.round(fit.height * zoom));
+  }
+
   private updateExportButton() {
     const exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
-    exportBtn.disabled = this.timelineClips.size === 0;
+    exportBtn.disabled = this.timelineClips.size === 0 || this.isExporting;
   }
 
-  private updatePreviewControls() {
-    // No preview buttons to update anymore (using video player controls + spacebar)
+  // Export Progress Panel
+
+  private showExportPanel() {
+    this.exportPanelState = 'running';
+    this.updateExportProgress({ percent: 0, stage: 'Preparing', elapsed: 0, eta: null });
+    this.updateExportPanelButtons();
+    (document.getElementById('export-panel') as HTMLElement).style.display = 'flex';
   }
 
-  // Recording Methods
-  async startScreenRecording() {
+  private updateExportProgress(progress: ExportProgress) {
+    if (this.exportPanelState !== 'running') return;
+
+    (document.getElementById('export-stage') as HTMLElement).textContent = progress.stage;
+    (document.getElementById('export-percent') as HTMLElement).textContent = `${Math.floor(progress.percent)}%`;
+    (document.getElementById('export-progress-bar') as HTMLElement).style.width = `${progress.percent}%`;
+    (document.getElementById('export-elapsed') as HTMLElement).textContent = `Elapsed ${this.formatTime(progress.elapsed)}`;
+    (document.getElementById('export-eta') as HTMLElement).textContent =
+      progress.eta === null ? 'Remaining --:--' : `Remaining ${this.formatTime(progress.eta)}`;
+  }
+
+  private onExportFinished(outputPath: string) {
+    this.exportPanelState = 'complete';
+    this.exportOutputPath = outputPath;
+    (document.getElementById('export-stage') as HTMLElement).textContent = `Exported ${outputPath.split(/[\\/]/).pop()}`;
+    (document.getElementById('export-percent') as HTMLElement).textContent = '100%';
+    (document.getElementById('export-progress-bar') as HTMLElement).style.width = '100%';
+    (document.getElementById('export-eta') as HTMLElement).textContent = '';
+    this.updateExportPanelButtons();
+  }
+
+  private onExportFailed(error: string) {
+    this.exportPanelState = 'error';
+    (document.getElementById('export-stage') as HTMLElement).textContent = `Export failed: ${error}`;
+    (document.getElementById('export-eta') as HTMLElement).textContent = '';
+    this.updateExportPanelButtons();
+  }
+
+  private updateExportPanelButtons() {
+    const running = this.exportPanelState === 'running';
+    const complete = this.exportPanelState === 'complete';
+    (document.getElementById('export-panel') as HTMLElement).classList.toggle('failed', this.exportPanelState === 'error');
+    (document.getElementById('cancel-export-btn') as HTMLElement).style.display = running ? '' : 'none';
+    (document.getElementById('reveal-export-btn') as HTMLElement).style.display = complete ? '' : 'none';
+    (document.getElementById('import-export-btn') as HTMLElement).style.display = complete ? '' : 'none';
+    (document.getElementById('close-export-panel') as HTMLElement).style.display = running ? 'none' : '';
+  }
+
+  private async cancelExport() {
+    (document.getElementById('export-stage') as HTMLElement).textContent = 'Cancelling...';
     try {
-      // Get available screen sources
-      const sources = await window.electronAPI.getScreenSources();
+      await window.electronAPI.cancelExport();
+    } catch (error) {
+      console.error('Failed to cancel export:', error);
+    }
+  }
 
-      // Show modal with sources
-      const modal = document.getElementById('recording-modal') as HTMLElement;
-      const sourceGrid = document.getElementById('screen-sources') as HTMLElement;
+  private async importExportResult() {
+    if (!this.exportOutputPath) return;
 
-      // Clear previous sources
-      sourceGrid.innerHTML = '';
+    try {
+      const metadata = await window.electronAPI.getVideoMetadata(this.exportOutputPath);
+      this.addMediaClip(metadata);
+      this.closeExportPanel();
+    } catch (error) {
+      console.error('Failed to import export:', error);
+      alert(`Failed to import ${this.exportOutputPath}: ${error}`);
+    }
+  }
 
-      // Render source selection
-      sources.forEach((source) => {
-        const sourceItem = document.createElement('div');
-        sourceItem.className = 'source-item';
-        sourceItem.innerHTML = `
-          <img src="${source.thumbnail}" alt="${source.name}">
-          <p>${source.name}</p>
-        `;
-        sourceItem.addEventListener('click', () => {
-          this.startRecordingWithSource(source.id);
-          modal.classList.remove('active');
-        });
-        sourceGrid.appendChild(sourceItem);
-      });
+  private closeExportPanel() {
+    this.exportPanelState = 'idle';
+    (document.getElementById('export-panel') as HTMLElement).style.display = 'none';
+  }
+
+  private updatePreviewControls() {
+    // No preview buttons to update anymore (using video player controls + spacebar)
+  }
 
-      modal.classList.add('active');
+  // Recording Methods
+  async startScreenRecording() {
+    try {
+      await this.openRecordingModal('screen');
     } catch (error) {
       console.error('Error starting screen recording:', error);
       alert(`Failed to start screen recording: ${error}`);
@@ -894,12 +2541,7 @@ class VideoEditorApp {
 
   async startWebcamRecording() {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: true,
-        audio: true,
-      });
-
-      this.startRecordingStream(stream);
+      await this.openRecordingModal('webcam');
     } catch (error) {
       console.error('Error starting webcam recording:', error);
       alert(`Failed to start webcam recording: ${error}`);
@@ -908,15 +2550,25 @@ class VideoEditorApp {
 
   async startPictureInPictureRecording() {
     try {
-      // Get available screen sources
-      const sources = await window.electronAPI.getScreenSources();
+      await this.openRecordingModal('pip');
+    } catch (error) {
+      console.error('Error starting picture-in-picture recording:', error);
+      alert(`Failed to start picture-in-picture recording: ${error}`);
+    }
+  }
 
-      // Show modal with sources
-      const modal = document.getElementById('recording-modal') as HTMLElement;
-      const sourceGrid = document.getElementById('screen-sources') as HTMLElement;
+  // Show the source grid (except for webcam recordings) and the audio settings
+  private async openRecordingModal(mode: RecordingMode) {
+    const modal = document.getElementById('recording-modal') as HTMLElement;
+    const sourceGrid = document.getElementById('screen-sources') as HTMLElement;
+    const isWebcam = mode === 'webcam';
 
-      // Clear previous sources
-      sourceGrid.innerHTML = '';
+    // Clear previous sources
+    sourceGrid.innerHTML = '';
+
+    if (!isWebcam) {
+      // Get available screen sources
+      const sources = await window.electronAPI.getScreenSources();
 
       // Render source selection
       sources.forEach((source) => {
@@ -927,24 +2579,132 @@ class VideoEditorApp {
           <p>${source.name}</p>
         `;
         sourceItem.addEventListener('click', () => {
-          this.startPipRecordingWithSource(source.id);
-          modal.classList.remove('active');
+          this.closeRecordingModal();
+          if (mode === 'pip') {
+            this.startPipRecordingWithSource(source.id);
+          } else {
+            this.startRecordingWithSource(source.id);
+          }
         });
         sourceGrid.appendChild(sourceItem);
       });
+    }
 
-      modal.classList.add('active');
-    } catch (error) {
-      console.error('Error starting picture-in-picture recording:', error);
-      alert(`Failed to start picture-in-picture recording: ${error}`);
+    (document.getElementById('recording-modal-title') as HTMLElement).textContent = isWebcam
+      ? 'Record Webcam'
+      : 'Choose Recording Source';
+    (document.getElementById('source-selection') as HTMLElement).style.display = isWebcam ? 'none' : '';
+    (document.getElementById('start-webcam-recording') as HTMLElement).style.display = isWebcam ? '' : 'none';
+    (document.getElementById('pip-layout-slot') as HTMLElement).style.display = mode === 'pip' ? '' : 'none';
+    document.querySelectorAll<HTMLElement>('.pip-only').forEach((element) => {
+      element.style.display = mode === 'pip' ? '' : 'none';
+    });
+    await this.renderRecordingAudioSettings(!isWebcam);
+
+    modal.classList.add('active');
+    if (mode === 'pip') {
+      this.renderPipLayoutForm();
+      this.startPipPreview();
     }
   }
 
-  private async startPipRecordingWithSource(sourceId: string) {
+  private async startWebcamRecordingWithAudio() {
+    this.closeRecordingModal();
+    let stream: MediaStream | null = null;
     try {
-      // Get screen stream
-      const screenStream = await (navigator.mediaDevices as any).getUserMedia({
+      stream = await navigator.mediaDevices.getUserMedia({
+        video: true,
         audio: false,
+      });
+
+      const audioTrack = await this.createRecordingAudio();
+      if (audioTrack) {
+        stream.addTrack(audioTrack);
+      }
+
+      await this.startRecordingStream(stream);
+    } catch (error) {
+      stream?.getTracks().forEach((track) => track.stop());
+      this.closeRecordingAudio();
+      console.error('Error starting webcam recording:', error);
+      alert(`Failed to start webcam recording: ${error}`);
+    }
+  }
+
+  // Recording Audio
+
+  private async renderRecordingAudioSettings(allowSystemAudio: boolean) {
+    const settings = this.recordingAudioSettings;
+
+    // Device labels are only filled in once the app has microphone permission
+    const devices = (await navigator.mediaDevices.enumerateDevices()).filter(
+      (device) => device.kind === 'audioinput' && device.deviceId !== 'default' && device.deviceId !== 'communications'
+    );
+    const options: [string, string][] = [
+      ['', 'No microphone'],
+      ['default', 'Default microphone'],
+      ...devices.map((device, index): [string, string] => [device.deviceId, device.label || `Microphone ${index + 1}`]),
+    ];
+    if (!options.some(([id]) => id === settings.microphoneId)) {
+      settings.microphoneId = DEFAULT_RECORDING_AUDIO.microphoneId;
+    }
+
+    const microphone = document.getElementById('recording-microphone') as HTMLSelectElement;
+    microphone.replaceChildren(
+      ...options.map(([id, label]) => {
+        const option = document.createElement('option');
+        option.value = id;
+        option.textContent = label;
+        return option;
+      })
+    );
+    microphone.value = settings.microphoneId;
+
+    const systemAudio = document.getElementById('recording-system-audio') as HTMLInputElement;
+    systemAudio.disabled = !allowSystemAudio;
+    (document.getElementById('recording-system-audio-label') as HTMLElement).textContent = allowSystemAudio
+      ? 'Record what the computer plays'
+      : 'Only with a screen or window source';
+
+    (document.getElementById('recording-microphone-gain') as HTMLInputElement).value = String(settings.microphoneGain);
+    (document.getElementById('recording-system-gain') as HTMLInputElement).value = String(settings.systemGain);
+    this.updateRecordingAudioState();
+  }
+
+  private readRecordingAudioSettings() {
+    const settings = this.recordingAudioSettings;
+    settings.microphoneId = (document.getElementById('recording-microphone') as HTMLSelectElement).value;
+    const systemAudio = document.getElementById('recording-system-audio') as HTMLInputElement;
+    if (!systemAudio.disabled) {
+      settings.systemAudio = systemAudio.checked;
+    }
+    settings.microphoneGain = Number((document.getElementById('recording-microphone-gain') as HTMLInputElement).value);
+    settings.systemGain = Number((document.getElementById('recording-system-gain') as HTMLInputElement).value);
+    this.updateRecordingAudioState();
+  }
+
+  private updateRecordingAudioState() {
+    const settings = this.recordingAudioSettings;
+    const systemAudio = document.getElementById('recording-system-audio') as HTMLInputElement;
+    systemAudio.checked = settings.systemAudio && !systemAudio.disabled;
+
+    const microphoneGain = document.getElementById('recording-microphone-gain') as HTMLInputElement;
+    microphoneGain.disabled = !settings.microphoneId;
+    const systemGain = document.getElementById('recording-system-gain') as HTMLInputElement;
+    systemGain.disabled = !systemAudio.checked;
+
+    const formatGain = (db: number) => `${db > 0 ? '+' : ''}${db} dB`;
+    (document.getElementById('recording-microphone-gain-value') as HTMLElement).textContent = formatGain(
+      settings.microphoneGain
+    );
+    (document.getElementById('recording-system-gain-value') as HTMLElement).textContent = formatGain(settings.systemGain);
+  }
+
+  // Capture a screen or window, plus the desktop audio when system audio is on and the platform can capture it
+  private async getDesktopStream(sourceId: string, withSystemAudio: boolean): Promise<MediaStream> {
+    const capture = (audio: boolean): Promise<MediaStream> =>
+      (navigator.mediaDevices as any).getUserMedia({
+        audio: audio ? { mandatory: { chromeMediaSource: 'desktop' } } : false,
         video: {
           mandatory: {
             chromeMediaSource: 'desktop',
@@ -953,11 +2713,83 @@ class VideoEditorApp {
         },
       });
 
+    if (withSystemAudio) {
+      try {
+        return await capture(true);
+      } catch (error) {
+        // e.g. macOS, which has no desktop audio loopback; the level meter shows it as unavailable
+        console.error('System audio capture is not available, recording without it:', error);
+      }
+    }
+    return capture(false);
+  }
+
+  // Open the chosen microphone and mix it with the desktop audio, if any, into the one track to record
+  private async createRecordingAudio(desktopStream?: MediaStream): Promise<MediaStreamTrack | undefined> {
+    const settings = this.recordingAudioSettings;
+    const mixer = new RecordingAudioMixer();
+    this.recordingAudio = mixer;
+
+    if (desktopStream && settings.systemAudio) {
+      mixer.addSource('system', desktopStream, settings.systemGain);
+    }
+    if (settings.microphoneId) {
+      try {
+        const microphone = await navigator.mediaDevices.getUserMedia({
+          audio: getMicrophoneConstraints(settings),
+          video: false,
+        });
+        mixer.addSource('microphone', microphone, settings.microphoneGain);
+      } catch (error) {
+        // e.g. permission denied or the device was unplugged; the level meter shows it as unavailable
+        console.error('Microphone is not available, recording without it:', error);
+      }
+    }
+    return mixer.getTrack();
+  }
+
+  private closeRecordingAudio() {
+    if (this.levelMeterFrame) {
+      cancelAnimationFrame(this.levelMeterFrame);
+      this.levelMeterFrame = null;
+    }
+    this.recordingAudio?.close();
+    this.recordingAudio = null;
+  }
+
+  // Live levels for the sources being recorded; a requested source that couldn't be captured shows as unavailable
+  private updateLevelMeters() {
+    const mixer = this.recordingAudio;
+    const requested: Record<RecordingAudioSource, boolean> = {
+      microphone: Boolean(this.recordingAudioSettings.microphoneId),
+      system: this.recordingAudioSettings.systemAudio && this.recordingCapturesDesktop,
+    };
+
+    for (const source of ['microphone', 'system'] as RecordingAudioSource[]) {
+      const meter = document.getElementById(`${source}-meter`) as HTMLElement;
+      const level = mixer?.getLevel(source) ?? null;
+      meter.style.display = requested[source] ? '' : 'none';
+      meter.classList.toggle('unavailable', level === null);
+      meter.title = level === null ? 'Not being recorded' : '';
+      const bar = meter.querySelector('.level-meter-bar') as HTMLElement;
+      bar.style.width = `${getMeterPosition(level ?? 0) * 100}%`;
+    }
+
+    this.levelMeterFrame = requestAnimationFrame(() => this.updateLevelMeters());
+  }
+
+  private async startPipRecordingWithSource(sourceId: string) {
+    try {
+      // Get screen stream
+      const screenStream = await this.getDesktopStream(sourceId, this.recordingAudioSettings.systemAudio);
+      this.recordingCapturesDesktop = true;
+
       // Get webcam stream
       const webcamStream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 320, height: 240 },
-        audio: true,
+        video: PIP_WEBCAM_CONSTRAINTS,
+        audio: false,
       });
+      this.pipSourceStreams = [screenStream, webcamStream];
 
       // Create canvas for compositing
       this.pipCanvas = document.createElement('canvas');
@@ -991,184 +2823,580 @@ class VideoEditorApp {
       // Start compositing frames
       this.compositeFrames();
 
-      // Get canvas stream and add audio from webcam
+      // Get canvas stream and add the microphone and system audio mix
       const canvasStream = this.pipCanvas.captureStream(30); // 30 fps
-      const audioTrack = webcamStream.getAudioTracks()[0];
+      const audioTrack = await this.createRecordingAudio(screenStream);
       if (audioTrack) {
         canvasStream.addTrack(audioTrack);
       }
 
-      // Store streams for cleanup
-      this.currentRecordingStream = new MediaStream([
-        ...screenStream.getTracks(),
-        ...webcamStream.getTracks(),
-      ]);
+      // Screen (with the audio) and webcam files of their own, for re-editing the overlay on the timeline
+      const parts: RecordingPart[] = this.recordingOptions.separateFiles
+        ? [
+            { label: 'screen', stream: new MediaStream([...screenStream.getVideoTracks(), ...canvasStream.getAudioTracks()]) },
+            { label: 'webcam', stream: new MediaStream(webcamStream.getVideoTracks()) },
+          ]
+        : [];
+
+      // Start recording the composite stream
+      (document.getElementById('pip-layout-btn') as HTMLElement).style.display = '';
+      await this.startRecordingStream(canvasStream, parts);
+    } catch (error) {
+      this.releaseRecordingSources();
+      console.error('Error starting PiP recording with source:', error);
+      alert(`Failed to start picture-in-picture recording: ${error}`);
+    }
+  }
+
+  private compositeFrames() {
+    if (!this.pipContext || !this.pipCanvas || !this.screenVideoElement || !this.webcamVideoElement) {
+      return;
+    }
+
+    const canvas = this.pipCanvas;
+    const screenVideo = this.screenVideoElement;
+    const webcamVideo = this.webcamVideoElement;
+
+    // The layout is read every frame, so changes made while recording show up straight away
+    drawPipFrame(
+      this.pipContext,
+      canvas.width,
+      canvas.height,
+      this.pipLayout,
+      { image: screenVideo, width: screenVideo.videoWidth, height: screenVideo.videoHeight },
+      { image: webcamVideo, width: webcamVideo.videoWidth, height: webcamVideo.videoHeight }
+    );
+
+    // Mirror the recording into the layout preview while it's open
+    const preview = document.getElementById('pip-preview') as HTMLCanvasElement;
+    if (preview.offsetParent) {
+      preview.getContext('2d')?.drawImage(canvas, 0, 0, preview.width, preview.height);
+    }
+
+    // Continue compositing
+    this.pipAnimationFrame = requestAnimationFrame(() => this.compositeFrames());
+  }
+
+  // Picture-in-Picture Layout
+
+  private renderPipLayoutForm() {
+    const layout = this.pipLayout;
+    (document.getElementById('pip-mode') as HTMLSelectElement).value = layout.mode;
+    (document.getElementById('pip-position') as HTMLSelectElement).value = layout.position;
+    (document.getElementById('pip-size') as HTMLInputElement).value = String(Math.round(layout.size * 100));
+    (document.getElementById('pip-shape') as HTMLSelectElement).value = layout.shape;
+    (document.getElementById('pip-border') as HTMLInputElement).checked = layout.border;
+    (document.getElementById('pip-border-color') as HTMLInputElement).value = layout.borderColor;
+    (document.getElementById('pip-shadow') as HTMLInputElement).checked = layout.shadow;
+    this.updatePipLayoutState();
+  }
+
+  private readPipLayoutForm() {
+    this.pipLayout = {
+      ...this.pipLayout,
+      mode: (document.getElementById('pip-mode') as HTMLSelectElement).value as PipLayoutMode,
+      position: (document.getElementById('pip-position') as HTMLSelectElement).value as PipPosition,
+      size: Number((document.getElementById('pip-size') as HTMLInputElement).value) / 100,
+      shape: (document.getElementById('pip-shape') as HTMLSelectElement).value as PipShape,
+      border: (document.getElementById('pip-border') as HTMLInputElement).checked,
+      borderColor: (document.getElementById('pip-border-color') as HTMLInputElement).value,
+      shadow: (document.getElementById('pip-shadow') as HTMLInputElement).checked,
+    };
+    this.updatePipLayoutState();
+  }
+
+  // Position, size, shape, border and shadow only apply to the overlay layout
+  private updatePipLayoutState() {
+    const isOverlay = this.pipLayout.mode === 'overlay';
+    ['pip-position', 'pip-size', 'pip-shape', 'pip-border', 'pip-shadow'].forEach((id) => {
+      (document.getElementById(id) as HTMLInputElement).disabled = !isOverlay;
+    });
+    (document.getElementById('pip-border-color') as HTMLInputElement).disabled = !isOverlay || !this.pipLayout.border;
+    (document.getElementById('pip-size-value') as HTMLElement).textContent = `${Math.round(this.pipLayout.size * 100)}%`;
+    (document.getElementById('pip-preview') as HTMLElement).classList.toggle('draggable', isOverlay);
+  }
 
-      // Start recording the composite stream
-      this.startRecordingStream(canvasStream);
-    } catch (error) {
-      console.error('Error starting PiP recording with source:', error);
-      alert(`Failed to start picture-in-picture recording: ${error}`);
+  // Dragging on the preview places the webcam overlay anywhere in the frame
+  private onPipPreviewPointer(e: PointerEvent) {
+    if (this.pipLayout.mode !== 'overlay' || (e.type === 'pointermove' && e.buttons !== 1)) return;
+
+    const preview = e.currentTarget as HTMLCanvasElement;
+    const bounds = preview.getBoundingClientRect();
+    this.pipLayout = {
+      ...this.pipLayout,
+      position: 'free',
+      x: Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - bounds.top) / bounds.height)),
+    };
+    (document.getElementById('pip-position') as HTMLSelectElement).value = 'free';
+    if (e.type === 'pointerdown') {
+      preview.setPointerCapture(e.pointerId);
     }
   }
 
-  private compositeFrames() {
-    if (!this.pipContext || !this.pipCanvas || !this.screenVideoElement || !this.webcamVideoElement) {
-      return;
-    }
+  // Before recording, the preview shows the live webcam over a stand-in for the screen
+  private async startPipPreview() {
+    this.stopPipPreview();
+    const video = document.createElement('video');
+    video.muted = true;
+    this.pipPreviewVideo = video;
+    this.drawPipPreview();
 
-    const ctx = this.pipContext;
-    const canvas = this.pipCanvas;
-    const screenVideo = this.screenVideoElement;
-    const webcamVideo = this.webcamVideoElement;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: PIP_WEBCAM_CONSTRAINTS, audio: false });
+      if (this.pipPreviewVideo !== video) {
+        // The dialog was closed while the camera was starting
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      video.srcObject = stream;
+      await video.play();
+    } catch (error) {
+      console.error('Webcam preview unavailable:', error);
+    }
+  }
 
-    // Draw screen content (full canvas)
-    ctx.drawImage(screenVideo, 0, 0, canvas.width, canvas.height);
+  private drawPipPreview() {
+    const preview = document.getElementById('pip-preview') as HTMLCanvasElement;
+    const ctx = preview.getContext('2d');
+    const video = this.pipPreviewVideo;
+    if (!ctx || !video) return;
 
-    // Calculate webcam overlay position (bottom-right corner)
-    const webcamWidth = 320;
-    const webcamHeight = 240;
-    const margin = 20;
-    const x = canvas.width - webcamWidth - margin;
-    const y = canvas.height - webcamHeight - margin;
+    const webcam = video.videoWidth > 0 ? { image: video, width: video.videoWidth, height: video.videoHeight } : null;
+    drawPipFrame(ctx, preview.width, preview.height, this.pipLayout, null, webcam);
+    this.pipPreviewFrame = requestAnimationFrame(() => this.drawPipPreview());
+  }
 
-    // Draw border/shadow for webcam
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
-    ctx.shadowBlur = 10;
-    ctx.strokeStyle = '#4a9eff';
-    ctx.lineWidth = 3;
-    ctx.strokeRect(x - 2, y - 2, webcamWidth + 4, webcamHeight + 4);
+  private stopPipPreview() {
+    if (this.pipPreviewFrame) {
+      cancelAnimationFrame(this.pipPreviewFrame);
+      this.pipPreviewFrame = null;
+    }
+    if (this.pipPreviewVideo) {
+      const stream = this.pipPreviewVideo.srcObject as MediaStream | null;
+      stream?.getTracks().forEach((track) => track.stop());
+      this.pipPreviewVideo.srcObject = null;
+      this.pipPreviewVideo = null;
+    }
+  }
 
-    // Draw webcam feed on top
-    ctx.shadowBlur = 0;
-    ctx.drawImage(webcamVideo, x, y, webcamWidth, webcamHeight);
+  // The layout panel lives in the recording dialog before recording and in a popover during it
+  private toggleRecordingLayoutPanel() {
+    const popover = document.getElementById('pip-layout-popover') as HTMLElement;
+    const panel = document.getElementById('pip-layout-panel') as HTMLElement;
+    const open = popover.style.display === 'none';
+    if (open) {
+      popover.appendChild(panel);
+      this.renderPipLayoutForm();
+    }
+    popover.style.display = open ? 'block' : 'none';
+  }
 
-    // Continue compositing
-    this.pipAnimationFrame = requestAnimationFrame(() => this.compositeFrames());
+  private closeRecordingLayoutPanel() {
+    (document.getElementById('pip-layout-popover') as HTMLElement).style.display = 'none';
+    (document.getElementById('pip-layout-slot') as HTMLElement).appendChild(
+      document.getElementById('pip-layout-panel') as HTMLElement
+    );
   }
 
   private async startRecordingWithSource(sourceId: string) {
+    let desktopStream: MediaStream | null = null;
     try {
-      const stream = await (navigator.mediaDevices as any).getUserMedia({
-        audio: false,
-        video: {
-          mandatory: {
-            chromeMediaSource: 'desktop',
-            chromeMediaSourceId: sourceId,
-          },
-        },
-      });
+      desktopStream = await this.getDesktopStream(sourceId, this.recordingAudioSettings.systemAudio);
+      this.recordingCapturesDesktop = true;
+
+      // Record the screen with the microphone and system audio mix in place of the raw desktop audio
+      const stream = new MediaStream(desktopStream.getVideoTracks());
+      const audioTrack = await this.createRecordingAudio(desktopStream);
+      if (audioTrack) {
+        stream.addTrack(audioTrack);
+      }
 
-      this.startRecordingStream(stream);
+      await this.startRecordingStream(stream);
     } catch (error) {
+      desktopStream?.getTracks().forEach((track) => track.stop());
+      this.closeRecordingAudio();
+      this.recordingCapturesDesktop = false;
       console.error('Error starting recording with source:', error);
       alert(`Failed to start recording: ${error}`);
     }
   }
 
-  private startRecordingStream(stream: MediaStream) {
+  // Record `stream`, plus each of `parts` to a file of its own
+  private async startRecordingStream(stream: MediaStream, parts: RecordingPart[] = []) {
     this.currentRecordingStream = stream;
-    this.recordedChunks = [];
-
-    // Create MediaRecorder
-    const options = { mimeType: 'video/webm; codecs=vp9' };
-    this.mediaRecorder = new MediaRecorder(stream, options);
-
-    this.mediaRecorder.ondataavailable = (event) => {
-      if (event.data.size > 0) {
-        this.recordedChunks.push(event.data);
-      }
-    };
 
-    this.mediaRecorder.onstop = () => {
-      this.saveRecording();
-    };
+    // The sources are already open, so the countdown ends exactly when capture begins
+    this.setRecordingStopShortcut(true);
+    if (!(await this.runCountdown(this.recordingOptions.countdown))) {
+      this.releaseRecordingSources();
+      return;
+    }
 
-    // Start recording
-    this.mediaRecorder.start();
+    // Open the files, then create one MediaRecorder per file
+    let recordingIds: string[] = [];
+    try {
+      recordingIds = await window.electronAPI.beginRecording(['', ...parts.map((part) => part.label)]);
+      const recorders = [stream, ...parts.map((part) => part.stream)].map((partStream, index) =>
+        this.createFileRecorder(partStream, recordingIds[index])
+      );
+      this.mediaRecorder = recorders[0].recorder;
+      this.partRecorders = recorders.slice(1).map(({ recorder }) => recorder);
+
+      // Settled one by one, so a part that fails to write doesn't lose the ones that saved
+      const saved = Promise.allSettled(recorders.map((recorder) => recorder.saved));
+      const labels = ['recording', ...parts.map((part) => part.label)];
+      this.mediaRecorder.addEventListener('stop', () => this.saveRecording(saved, labels, this.getRecordingElapsed()));
+
+      // Start recording
+      recorders.forEach(({ recorder }) => recorder.start(RECORDING_CHUNK_MS));
+    } catch (error) {
+      // Don't leave the capture running or the stop shortcut registered system-wide
+      this.mediaRecorder = null;
+      this.partRecorders = [];
+      this.releaseRecordingSources();
+      recordingIds.forEach((recordingId) =>
+        window.electronAPI
+          .finishRecording(recordingId)
+          .catch((finishError) => console.error('Error closing recording file:', finishError))
+      );
+      throw error;
+    }
     this.recordingStartTime = Date.now();
+    this.recordedTime = 0;
+    this.updateLevelMeters();
 
     // Show recording controls
     const recordingControls = document.getElementById('recording-controls') as HTMLElement;
     recordingControls.style.display = 'flex';
+    recordingControls.classList.remove('paused');
+    (document.getElementById('pause-recording-btn') as HTMLElement).textContent = 'Pause';
+
+    // Update recording time display, and stop at the time limit
+    this.updateRecordingTime();
+    this.recordingInterval = window.setInterval(() => this.updateRecordingTime(), 250);
+  }
+
+  // Count down on the overlay before capture; resolves false if the countdown is cancelled
+  private runCountdown(seconds: number): Promise<boolean> {
+    if (seconds <= 0) return Promise.resolve(true);
+
+    const overlay = document.getElementById('recording-countdown') as HTMLElement;
+    const number = document.getElementById('recording-countdown-number') as HTMLElement;
+
+    return new Promise((resolve) => {
+      let remaining = seconds;
+      number.textContent = String(remaining);
+      overlay.style.display = 'flex';
+
+      const finish = (started: boolean) => {
+        clearInterval(timer);
+        overlay.style.display = 'none';
+        this.cancelCountdown = null;
+        resolve(started);
+      };
+      const timer = window.setInterval(() => {
+        remaining -= 1;
+        if (remaining > 0) {
+          number.textContent = String(remaining);
+        } else {
+          finish(true);
+        }
+      }, 1000);
+      this.cancelCountdown = () => finish(false);
+    });
+  }
+
+  // Seconds actually recorded: time spent paused doesn't count
+  private getRecordingElapsed(): number {
+    const running = this.mediaRecorder?.state === 'recording' ? (Date.now() - this.recordingStartTime) / 1000 : 0;
+    return this.recordedTime + running;
+  }
+
+  private updateRecordingTime() {
+    const elapsed = this.getRecordingElapsed();
+    const limit = this.recordingOptions.timeLimit;
+    const timeDisplay = document.getElementById('recording-time') as HTMLElement;
+    timeDisplay.textContent = limit > 0 ? `${this.formatTime(elapsed)} / ${this.formatTime(limit)}` : this.formatTime(elapsed);
 
-    // Update recording time display
-    this.recordingInterval = window.setInterval(() => {
-      const elapsed = Math.floor((Date.now() - this.recordingStartTime) / 1000);
-      const timeDisplay = document.getElementById('recording-time') as HTMLElement;
-      timeDisplay.textContent = this.formatTime(elapsed);
-    }, 1000);
+    if (limit > 0 && elapsed >= limit) {
+      this.stopRecording();
+    }
+  }
+
+  toggleRecordingPause() {
+    const recorder = this.mediaRecorder;
+    if (!recorder || recorder.state === 'inactive') return;
+
+    const paused = recorder.state === 'recording';
+    if (paused) {
+      this.recordedTime += (Date.now() - this.recordingStartTime) / 1000;
+      [recorder, ...this.partRecorders].forEach((partRecorder) => partRecorder.pause());
+    } else {
+      this.recordingStartTime = Date.now();
+      [recorder, ...this.partRecorders].forEach((partRecorder) => partRecorder.resume());
+    }
+
+    (document.getElementById('recording-controls') as HTMLElement).classList.toggle('paused', paused);
+    (document.getElementById('pause-recording-btn') as HTMLElement).textContent = paused ? 'Resume' : 'Pause';
+    this.updateRecordingTime();
   }
 
+  // Stop from the button, the global shortcut or the time limit; during the countdown, cancel it instead
   stopRecording() {
+    if (this.cancelCountdown) {
+      this.cancelCountdown();
+      return;
+    }
+
     if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
+      // Freeze the elapsed time before stopping, for the recording's duration
+      this.recordedTime = this.getRecordingElapsed();
+      this.partRecorders.forEach((recorder) => recorder.stop());
+      this.partRecorders = [];
       this.mediaRecorder.stop();
+      this.releaseRecordingSources();
+    }
+  }
 
-      // Stop compositing animation if running
-      if (this.pipAnimationFrame) {
-        cancelAnimationFrame(this.pipAnimationFrame);
-        this.pipAnimationFrame = null;
-      }
-
-      // Clean up video elements
-      if (this.screenVideoElement) {
-        this.screenVideoElement.srcObject = null;
-        this.screenVideoElement = null;
-      }
+  private releaseRecordingSources() {
+    // Stop compositing animation if running
+    if (this.pipAnimationFrame) {
+      cancelAnimationFrame(this.pipAnimationFrame);
+      this.pipAnimationFrame = null;
+    }
 
-      if (this.webcamVideoElement) {
-        this.webcamVideoElement.srcObject = null;
-        this.webcamVideoElement = null;
-      }
+    // Clean up video elements
+    if (this.screenVideoElement) {
+      this.screenVideoElement.srcObject = null;
+      this.screenVideoElement = null;
+    }
 
-      // Clean up canvas
-      this.pipCanvas = null;
-      this.pipContext = null;
+    if (this.webcamVideoElement) {
+      this.webcamVideoElement.srcObject = null;
+      this.webcamVideoElement = null;
+    }
 
-      // Stop all tracks
-      if (this.currentRecordingStream) {
-        this.currentRecordingStream.getTracks().forEach((track) => track.stop());
-        this.currentRecordingStream = null;
-      }
+    // Clean up canvas
+    this.pipCanvas = null;
+    this.pipContext = null;
+    this.pipSourceStreams.forEach((stream) => stream.getTracks().forEach((track) => track.stop()));
+    this.pipSourceStreams = [];
+    this.closeRecordingLayoutPanel();
+    (document.getElementById('pip-layout-btn') as HTMLElement).style.display = 'none';
+
+    // Stop all tracks
+    if (this.currentRecordingStream) {
+      this.currentRecordingStream.getTracks().forEach((track) => track.stop());
+      this.currentRecordingStream = null;
+    }
+    this.closeRecordingAudio();
+    this.recordingCapturesDesktop = false;
+    this.setRecordingStopShortcut(false);
+
+    // Clear interval
+    if (this.recordingInterval) {
+      clearInterval(this.recordingInterval);
+      this.recordingInterval = null;
+    }
 
-      // Clear interval
-      if (this.recordingInterval) {
-        clearInterval(this.recordingInterval);
-        this.recordingInterval = null;
-      }
+    // Hide recording controls
+    const recordingControls = document.getElementById('recording-controls') as HTMLElement;
+    recordingControls.style.display = 'none';
+  }
 
-      // Hide recording controls
-      const recordingControls = document.getElementById('recording-controls') as HTMLElement;
-      recordingControls.style.display = 'none';
+  // The stop shortcut works while other apps have focus, so it's only held during a recording
+  private async setRecordingStopShortcut(enabled: boolean) {
+    try {
+      const accelerator = await window.electronAPI.setRecordingStopShortcut(enabled);
+      const isMac = navigator.userAgent.includes('Mac');
+      (document.getElementById('stop-recording-btn') as HTMLElement).title = accelerator
+        ? `Stop recording from any app with ${accelerator.replace('CommandOrControl', isMac ? 'Cmd' : 'Ctrl')}`
+        : '';
+    } catch (error) {
+      console.error('Error setting the recording stop shortcut:', error);
     }
   }
 
-  private async saveRecording() {
-    try {
-      // Create blob from recorded chunks
-      const blob = new Blob(this.recordedChunks, { type: 'video/webm' });
+  private readRecordingOptions() {
+    const limitMinutes = Number((document.getElementById('recording-time-limit') as HTMLInputElement).value);
+    this.recordingOptions = {
+      countdown: Number((document.getElementById('recording-countdown-select') as HTMLSelectElement).value),
+      timeLimit: Number.isFinite(limitMinutes) && limitMinutes > 0 ? Math.round(limitMinutes * 60) : 0,
+      separateFiles: (document.getElementById('recording-separate-files') as HTMLInputElement).checked,
+      format: (document.getElementById('recording-format') as HTMLSelectElement).value as RecordingFormat,
+    };
+  }
+
+  // A MediaRecorder whose chunks are written to the recording's file as they arrive
+  private createFileRecorder(stream: MediaStream, recordingId: string): FileRecorder {
+    const recorder = new MediaRecorder(stream, { mimeType: 'video/webm; codecs=vp9' });
+
+    // Chunks are written one after another, in the order they were recorded
+    let writes = Promise.resolve();
+    recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      writes = writes.then(async () => {
+        const chunk = new Uint8Array(await event.data.arrayBuffer());
+        await window.electronAPI.appendRecordingChunk(recordingId, chunk);
+      });
+    };
 
-      // Convert blob to Uint8Array
-      const arrayBuffer = await blob.arrayBuffer();
-      const uint8Array = new Uint8Array(arrayBuffer);
+    // The last chunk arrives before 'stop'. The file is closed even if a write failed, keeping what was written.
+    const saved = new Promise<string>((resolve, reject) => {
+      recorder.onstop = () => {
+        writes
+          .then(
+            () => window.electronAPI.finishRecording(recordingId),
+            async (error) => {
+              await window.electronAPI.finishRecording(recordingId);
+              throw error;
+            }
+          )
+          .then(resolve, reject);
+      };
+    });
 
-      // Save via IPC (path is generated in main process)
-      const savedPath = await window.electronAPI.saveRecording(uint8Array);
+    return { recorder, saved };
+  }
 
-      // Import the recording into the media library
-      const metadata = await window.electronAPI.getVideoMetadata(savedPath);
-      this.addMediaClip(metadata);
+  // Process the finished recording and put it on the timeline at the playhead. Separately recorded screen
+  // and webcam files go there instead, stacked (screen on Track 1, webcam on Track 2) so the overlay can be
+  // re-edited; the combined recording is then only added to the media library. Parts that failed to save
+  // are reported and the rest are imported.
+  private async saveRecording(saved: Promise<PromiseSettledResult<string>[]>, labels: string[], duration: number) {
+    try {
+      const results = await saved;
+      const unsaved: string[] = [];
+      const recorded: { part: number; path: string }[] = [];
+      results.forEach((result, part) => {
+        if (result.status === 'fulfilled') {
+          recorded.push({ part, path: result.value });
+        } else {
+          console.error(`Error saving the ${labels[part]}:`, result.reason);
+          unsaved.push(labels[part]);
+        }
+      });
+      if (recorded.length === 0) {
+        const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        throw failure?.reason;
+      }
 
-      alert(`Recording saved to ${savedPath} and added to media library!`);
+      const { paths, failed, cancelled } = await this.processRecordings(recorded.map(({ path }) => path), duration);
+      const files = recorded.map(({ part }, index) => ({ part, path: paths[index] }));
+      const combined = files.find(({ part }) => part === 0);
+      const sources = files.filter(({ part }) => part > 0);
+
+      const importRecording = async (filePath: string) => {
+        const metadata = await window.electronAPI.getVideoMetadata(filePath);
+        // Files that couldn't be processed may still carry no duration; the recorded time is the next best thing
+        if (!metadata.duration) {
+          metadata.duration = duration;
+        }
+        this.addMediaClip(metadata);
+        return metadata;
+      };
+
+      // Import the recording into the media library; each separate part keeps its own track
+      const recording = combined ? await importRecording(combined.path) : undefined;
+      const sourceMedia = await Promise.all(
+        sources.map(async ({ part, path }) => ({ clip: await importRecording(path), track: part - 1 }))
+      );
+      const timelineMedia = sourceMedia.length > 0 || !recording ? sourceMedia : [{ clip: recording, track: 0 }];
+
+      // At the playhead if every track is free there, otherwise after what's already on those tracks
+      const fitsAtPlayhead = timelineMedia.every(({ clip, track }) =>
+        this.isValidPosition(this.timelinePlaybackTime, clip.duration, track)
+      );
+      const start = fitsAtPlayhead
+        ? this.timelinePlaybackTime
+        : Math.max(
+            0,
+            ...Array.from(this.timelineClips.values())
+              .filter((clip) => timelineMedia.some(({ track }) => track === clip.track))
+              .map((clip) => clip.startTime + clip.duration)
+          );
+      timelineMedia.forEach(({ clip, track }) => this.addToTimeline(clip.id, track, start));
+
+      let message = `Recording saved to ${combined?.path} and added to the timeline!`;
+      if (sources.length > 0) {
+        message =
+          (combined ? `Recording saved to ${combined.path} and added to media library!\n\n` : '') +
+          `The ${sources.map(({ part }) => labels[part]).join(' and ')} ${sources.length > 1 ? 'were' : 'was'} ` +
+          `saved separately and placed on the timeline:\n` +
+          sources.map(({ part, path }) => `Track ${part}: ${path}`).join('\n');
+      }
+      if (unsaved.length > 0) {
+        message += `\n\nThe ${unsaved.join(' and ')} could not be saved.`;
+      }
+      if (cancelled) {
+        message += '\n\nProcessing was cancelled, so the recording was imported as recorded (seeking may be slow).';
+      }
+      if (failed.length > 0) {
+        message += `\n\nThese could not be processed and were imported as recorded (seeking may be slow):\n${failed.join('\n')}`;
+      }
+      alert(message);
     } catch (error) {
       console.error('Error saving recording:', error);
       alert(`Failed to save recording: ${error}`);
     }
   }
 
+  // Remux (or transcode) each recorded file one after another, showing progress; a file that fails keeps its recorded form
+  // Cancelling imports this and the remaining files as recorded
+  private async processRecordings(
+    filePaths: string[],
+    duration: number
+  ): Promise<{ paths: string[]; failed: string[]; cancelled: boolean }> {
+    const format = this.recordingOptions.format;
+    const panel = document.getElementById('recording-processing') as HTMLElement;
+    const stage = document.getElementById('recording-processing-stage') as HTMLElement;
+    const paths: string[] = [];
+    const failed: string[] = [];
+
+    this.recordingProcessingCancelled = false;
+    panel.style.display = 'flex';
+    for (const [index, filePath] of filePaths.entries()) {
+      if (this.recordingProcessingCancelled) {
+        paths.push(filePath);
+        continue;
+      }
+
+      const count = filePaths.length > 1 ? ` (${index + 1} of ${filePaths.length})` : '';
+      stage.textContent = `${format === 'mp4' ? 'Converting to MP4' : 'Finishing recording'}${count}`;
+      this.updateRecordingProcessing(0);
+
+      try {
+        paths.push(await window.electronAPI.processRecording(filePath, format, duration));
+      } catch (error) {
+        paths.push(filePath);
+        if (!this.recordingProcessingCancelled) {
+          console.error('Error processing recording:', filePath, error);
+          failed.push(filePath);
+        }
+      }
+    }
+    panel.style.display = 'none';
+
+    return { paths, failed, cancelled: this.recordingProcessingCancelled };
+  }
+
+  private cancelRecordingProcessing() {
+    this.recordingProcessingCancelled = true;
+    window.electronAPI
+      .cancelRecordingProcessing()
+      .catch((error) => console.error('Error cancelling recording processing:', error));
+  }
+
+  private updateRecordingProcessing(percent: number) {
+    (document.getElementById('recording-processing-bar') as HTMLElement).style.width = `${percent}%`;
+    (document.getElementById('recording-processing-percent') as HTMLElement).textContent = `${Math.round(percent)}%`;
+  }
+
   closeRecordingModal() {
     const modal = document.getElementById('recording-modal') as HTMLElement;
     modal.classList.remove('active');
+    this.stopPipPreview();
   }
 
   private formatTime(seconds: number): string {
@@ -1178,6 +3406,21 @@ class VideoEditorApp {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   }
 
+  private getFileName(filePath: string): string {
+    return filePath.split(/[\\/]/).pop() ?? filePath;
+  }
+
+  // Up to three decimals, without trailing zeros (29.97, 30)
+  private formatFrameRate(frameRate: number): string {
+    return Number(frameRate.toFixed(3)).toString();
+  }
+
+  private formatChannels(channels: number | undefined): string {
+    if (channels === 1) return 'Mono';
+    if (channels === 2) return 'Stereo';
+    return channels ? `${channels} ch` : 'Unknown channels';
+  }
+
   private formatFileSize(bytes: number): string {
     if (bytes < 1024) return bytes + ' B';
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
@@ -1185,79 +3428,359 @@ class VideoEditorApp {
     return (bytes / (1024 * 1024 * 1024)).toFixed(1) + ' GB';
   }
 
-  // Timeline Playback System
-  private startTimelinePlayback() {
-    // Get all clips on track 1, sorted by start time
-    const track1Clips = Array.from(this.timelineClips.values())
-      .filter((clip) => clip.track === 0)
-      .sort((a, b) => a.startTime - b.startTime);
+  // Edit History
+  private recordClipChange(label: string, before: TimelineClip[], after: TimelineClip[]) {
+    // Snapshot the clips so later edits to the live objects don't leak into history. A gesture can
+    // list a clip twice (e.g. a move that also drops its transition): keep its earliest before-state
+    // and latest after-state.
+    const beforeById = new Map<string, TimelineClip>();
+    before.forEach((clip) => {
+      if (!beforeById.has(clip.id)) beforeById.set(clip.id, { ...clip });
+    });
+    const afterById = new Map<string, TimelineClip>();
+    after.forEach((clip) => afterById.set(clip.id, { ...clip }));
+
+    const beforeState = Array.from(beforeById.values());
+    const afterState = Array.from(afterById.values());
+
+    this.history.push({
+      label,
+      undo: () => this.replaceTimelineClips(afterState, beforeState),
+      redo: () => this.replaceTimelineClips(beforeState, afterState),
+    });
+  }
+
+  private replaceTimelineClips(remove: TimelineClip[], add: TimelineClip[]) {
+    this.pause();
+
+    remove.forEach((clip) => this.timelineClips.delete(clip.id));
+    add.forEach((clip) => this.timelineClips.set(clip.id, { ...clip }));
+
+    if (this.selectedTimelineClipId && !this.timelineClips.has(this.selectedTimelineClipId)) {
+      this.selectedTimelineClipId = null;
+    }
+
+    this.rerenderTimeline();
+    this.updateExportButton();
+    this.updatePreviewControls();
+  }
 
-    if (track1Clips.length === 0) {
+  private onUndoRedo(action: 'undo' | 'redo') {
+    // Let text fields keep their native undo behaviour
+    const active = document.activeElement as HTMLElement | null;
+    if (active && (active.tagName === 'INPUT' || active.tagName === 'TEXTAREA')) {
+      document.execCommand(action);
       return;
     }
 
-    // If we're at the end, restart from beginning
-    const totalDuration = this.getTimelineDuration();
-    if (this.timelinePlaybackTime >= totalDuration) {
-      this.timelinePlaybackTime = 0;
+    if (action === 'undo') {
+      this.history.undo();
+    } else {
+      this.history.redo();
     }
+  }
 
-    // Find and play the clip at current timeline time
-    this.updateTimelinePlayback();
+  private onHistoryChange() {
+    this.renderHistory();
+    this.markEdited();
   }
 
-  private updateTimelinePlayback() {
-    if (this.previewMode !== 'timeline') {
-      return;
+  private renderHistory() {
+    this.historyList.innerHTML = '';
+
+    const entries = [{ label: 'Initial state', applied: true }, ...this.history.getEntries()];
+    const position = this.history.getPosition();
+
+    entries.forEach((entry, index) => {
+      const item = document.createElement('li');
+      item.className = 'history-entry';
+      item.textContent = entry.label;
+      item.classList.toggle('undone', !entry.applied);
+      item.classList.toggle('current', index === position);
+      item.addEventListener('click', () => this.history.jumpTo(index));
+      this.historyList.appendChild(item);
+    });
+  }
+
+  // Autosave & Crash Recovery
+  private startAutosave() {
+    window.setInterval(() => this.saveRecoverySnapshot(), AUTOSAVE_INTERVAL_MS);
+  }
+
+  private markEdited() {
+    this.hasUnsavedSnapshot = true;
+
+    if (this.autosaveTimeout) {
+      clearTimeout(this.autosaveTimeout);
     }
+    this.autosaveTimeout = window.setTimeout(() => this.saveRecoverySnapshot(), AUTOSAVE_DEBOUNCE_MS);
+  }
 
-    const clip = this.getClipAtTime(this.timelinePlaybackTime);
+  private async saveRecoverySnapshot() {
+    if (!this.hasUnsavedSnapshot) return;
 
-    if (!clip) {
-      // Reached end of timeline
-      this.pause();
-      this.timelinePlaybackTime = 0;
-      return;
+    if (this.autosaveTimeout) {
+      clearTimeout(this.autosaveTimeout);
+      this.autosaveTimeout = null;
+    }
+
+    this.hasUnsavedSnapshot = false;
+    try {
+      await window.electronAPI.saveRecoverySnapshot({
+        savedAt: new Date().toISOString(),
+        projectPath: this.projectPath,
+        project: this.serializeProject(),
+      });
+    } catch (error) {
+      // Retry on the next tick of the autosave interval
+      this.hasUnsavedSnapshot = true;
+      console.error('Autosave failed:', error);
+    }
+  }
+
+  private async checkForRecovery() {
+    try {
+      const snapshot = await window.electronAPI.checkRecovery();
+      if (!snapshot) return;
+
+      const savedAt = new Date(snapshot.savedAt).toLocaleString();
+      if (!confirm(`ClipForge did not shut down cleanly. Restore the session autosaved at ${savedAt}?`)) {
+        return;
+      }
+
+      this.loadProject(snapshot.project);
+      this.history.clear();
+      this.projectPath = snapshot.projectPath;
+      this.updateWindowTitle();
+    } catch (error) {
+      console.error('Error checking for recovery snapshot:', error);
     }
+  }
+
+  // Project Files
+  private serializeProject(): ProjectData {
+    return {
+      mediaClips: Array.from(this.mediaClips.values()),
+      timelineClips: Array.from(this.timelineClips.values()).map((clip) => ({
+        id: clip.id,
+        clipId: clip.clipId,
+        startTime: clip.startTime,
+        duration: clip.duration,
+        trimStart: clip.trimStart,
+        trimEnd: clip.trimEnd,
+        track: clip.track,
+        transition: clip.transition,
+        color: clip.color,
+        audio: clip.audio,
+        text: clip.text,
+        motion: clip.motion,
+      })),
+      timelineZoom: this.timelineZoom,
+      playheadTime: this.timelinePlaybackTime,
+      inPoint: this.inPoint,
+      outPoint: this.outPoint,
+    };
+  }
 
-    // If we need to switch clips
-    if (this.currentTimelineClipId !== clip.id) {
-      this.currentTimelineClipId = clip.id;
+  private loadProject(project: ProjectData) {
+    this.resetProject();
 
-      // Load the clip video
-      this.previewVideo.src = `file://${clip.videoClip.path}`;
-      this.previewVideo.classList.add('active');
-      this.previewPlaceholder.style.display = 'none';
+    project.mediaClips.forEach((clip) => {
+      this.mediaClips.set(clip.id, clip);
+      this.renderMediaClip(clip);
+    });
 
-      // Calculate position within this clip
-      const clipLocalTime = this.timelinePlaybackTime - clip.startTime;
-      const videoTime = clip.trimStart + clipLocalTime;
+    // Proxies live in this machine's cache: relink each one, remaking it if it has gone
+    project.mediaClips
+      .filter((clip) => clip.proxyPath || clip.needsProxy)
+      .forEach((clip) => {
+        const linkedPath = clip.proxyPath;
+        clip.proxyPath = undefined;
+        this.createProxy(clip, linkedPath);
+      });
 
-      this.previewVideo.currentTime = videoTime;
+    project.timelineClips.forEach((clip) => {
+      if (clip.text) {
+        this.timelineClips.set(clip.id, { ...clip });
+        return;
+      }
 
-      // Only play if isPlaying is true (user pressed play)
-      if (this.isPlaying) {
-        const playPromise = this.previewVideo.play();
-        if (playPromise !== undefined) {
-          playPromise.catch((err) => {
-            console.error('Timeline playback failed:', err);
-            this.isPlaying = false;
-          });
-        }
+      const videoClip = this.mediaClips.get(clip.clipId);
+      if (!videoClip) {
+        console.warn(`Skipping timeline clip ${clip.id}: media ${clip.clipId} not in project`);
+        return;
+      }
+      this.timelineClips.set(clip.id, { ...clip, videoClip });
+    });
+
+    this.timelineZoom = project.timelineZoom || 100;
+    this.inPoint = project.inPoint ?? null;
+    this.outPoint = project.outPoint ?? null;
+    this.updateZoomLabel();
+    this.rerenderTimeline();
+
+    this.timelinePlaybackTime = project.playheadTime || 0;
+    if (this.timelineClips.size > 0) {
+      this.seekTimeline(this.timelinePlaybackTime);
+    }
+
+    this.updatePlayhead();
+    this.updateTimeDisplay();
+    this.updateExportButton();
+    this.updatePreviewControls();
+  }
+
+  private resetProject() {
+    this.pause();
+
+    this.mediaClips.clear();
+    this.timelineClips.clear();
+    this.proxyStatus.clear();
+    this.selectedMediaClipId = null;
+    this.updateMediaInfo();
+    this.selectedTimelineClipId = null;
+    this.inspectorEdit = null;
+    this.currentTime = 0;
+    this.timelinePlaybackTime = 0;
+    this.previewMode = 'media';
+
+    this.mediaClipsContainer.innerHTML = '';
+    document.querySelectorAll('.timeline-clip').forEach((el) => el.remove());
+    this.updateInspector();
+
+    this.previewVideo.removeAttribute('src');
+    this.previewVideo.removeAttribute('poster');
+    this.previewVideo.load();
+    this.previewVideo.classList.remove('active');
+    this.previewCanvas.classList.remove('active');
+    this.compositor.setLayers([]);
+    this.previewPlaceholder.style.display = '';
+
+    this.timelineZoom = 100;
+    this.updateZoomLabel();
+    this.inPoint = null;
+    this.outPoint = null;
+    this.updateRangeDisplay();
+
+    this.updatePlayhead();
+    this.updateTimeDisplay();
+    this.updateExportButton();
+  }
+
+  private confirmDiscardProject(): boolean {
+    if (this.mediaClips.size === 0 && this.timelineClips.size === 0) {
+      return true;
+    }
+    return confirm('Discard the current project? Unsaved changes will be lost.');
+  }
+
+  private newProject() {
+    if (!this.confirmDiscardProject()) return;
+
+    this.resetProject();
+    this.history.clear();
+    this.projectPath = null;
+    this.updateWindowTitle();
+  }
+
+  private async openProject() {
+    if (!this.confirmDiscardProject()) return;
+
+    try {
+      const opened = await window.electronAPI.openProject();
+      if (!opened) return;
+
+      this.loadProject(opened.project);
+      this.history.clear();
+      this.projectPath = opened.filePath;
+      this.updateWindowTitle();
+
+      if (opened.missingMedia.length > 0) {
+        alert(`Some media files could not be found:\n${opened.missingMedia.join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Error opening project:', error);
+      alert(`Failed to open project: ${error}`);
+    }
+  }
+
+  private async saveProject(saveAs: boolean) {
+    try {
+      const savedPath = await window.electronAPI.saveProject(
+        this.serializeProject(),
+        saveAs ? undefined : this.projectPath ?? undefined
+      );
+      if (!savedPath) return;
+
+      this.projectPath = savedPath;
+      this.updateWindowTitle();
+    } catch (error) {
+      console.error('Error saving project:', error);
+      alert(`Failed to save project: ${error}`);
+    }
+  }
+
+  private updateWindowTitle() {
+    const projectName = this.projectPath ? this.projectPath.split(/[\\/]/).pop() : 'Untitled';
+    document.title = `${projectName} - ClipForge`;
+  }
+
+  // Timeline Playback System
+  private getPreviewLayers(): PreviewLayer[] {
+    return Array.from(this.timelineClips.values()).map((clip) => ({
+      id: clip.id,
+      path: clip.videoClip ? this.getPreviewPath(clip.videoClip) : '',
+      track: clip.track,
+      startTime: clip.startTime,
+      duration: clip.duration,
+      trimStart: clip.trimStart,
+      width: clip.videoClip?.width ?? 0,
+      height: clip.videoClip?.height ?? 0,
+      transition: clip.transition,
+      color: clip.color,
+      audio: clip.audio,
+      text: clip.text,
+      image: clip.videoClip?.kind === 'image' ? { motion: clip.motion } : undefined,
+    }));
+  }
+
+  // Push the current timeline into the compositor and redraw the frame under the playhead
+  private refreshTimelinePreview() {
+    this.compositor.setLayers(this.getPreviewLayers());
+    this.updatePreviewFrame();
+
+    if (this.previewMode === 'timeline') {
+      this.seekBar.max = this.getTimelineDuration().toString();
+      if (!this.compositor.isPlaying()) {
+        this.compositor.seek(this.timelinePlaybackTime);
       }
     }
+  }
+
+  private seekTimeline(time: number) {
+    this.showTimelinePreview();
+    this.compositor.seek(time);
+    this.onTimelineTimeUpdate(this.compositor.getTime());
+  }
 
-    // Update playhead position
+  private onTimelineTimeUpdate(time: number) {
+    this.timelinePlaybackTime = time;
+    this.seekBar.value = time.toString();
     this.updatePlayhead();
+    this.updateTimeDisplay();
+  }
+
+  private onTimelineEnded() {
+    this.isPlaying = false;
   }
 
-  private getClipAtTime(time: number): TimelineClip | null {
-    // Get all clips on track 1, sorted by start time
-    const track1Clips = Array.from(this.timelineClips.values())
-      .filter((clip) => clip.track === 0)
+  private getClipAtTime(time: number, track = 0): TimelineClip | null {
+    // Get all clips on the track, sorted by start time
+    const trackClips = Array.from(this.timelineClips.values())
+      .filter((clip) => clip.track === track)
       .sort((a, b) => a.startTime - b.startTime);
 
-    for (const clip of track1Clips) {
+    for (const clip of trackClips) {
       const clipEnd = clip.startTime + clip.duration;
       if (time >= clip.startTime && time < clipEnd) {
         return clip;
@@ -1272,17 +3795,9 @@ class VideoEditorApp {
       return 0;
     }
 
-    // Get all clips on track 1
-    const track1Clips = Array.from(this.timelineClips.values())
-      .filter((clip) => clip.track === 0);
-
-    if (track1Clips.length === 0) {
-      return 0;
-    }
-
-    // Find the latest end time
+    // Find the latest end time across all tracks
     let maxEnd = 0;
-    for (const clip of track1Clips) {
+    for (const clip of this.timelineClips.values()) {
       const clipEnd = clip.startTime + clip.duration;
       if (clipEnd > maxEnd) {
         maxEnd = clipEnd;
@@ -0,0 +1,116 @@
+/**
+ * ClipForge - Still Images
+ *
+ * Image clips (screenshots, slides, logos) and their optional Ken Burns
+ * motion: a pan and zoom from a start keyframe to an end keyframe across the
+ * clip. Export loops the image and animates it with ffmpeg's zoompan filter;
+ * the preview draws the same window of the image on the canvas.
+ */
+
+import { Rect } from './composition';
+
+// Images have no length of their own; this is how long they are when placed on the timeline
+export const DEFAULT_IMAGE_DURATION = 5;
+
+export const MAX_MOTION_ZOOM = 4;
+
+export interface MotionKeyframe {
+  // 1 shows the whole image, 2 shows half its width and height
+  zoom: number;
+  // Where the visible window sits in the image, 0 (left/top edge) to 1 (right/bottom edge)
+  x: number;
+  y: number;
+}
+
+export interface ImageMotion {
+  start: MotionKeyframe;
+  end: MotionKeyframe;
+}
+
+// A slow push in towards the center
+export const DEFAULT_IMAGE_MOTION: ImageMotion = {
+  start: { zoom: 1, x: 0.5, y: 0.5 },
+  end: { zoom: 1.2, x: 0.5, y: 0.5 },
+};
+
+// Stable text for filter arguments (no float noise like 1.2000000000000002)
+const formatValue = (value: number) => Number(value.toFixed(4)).toString();
+
+const clampZoom = (zoom: number) => Math.min(MAX_MOTION_ZOOM, Math.max(1, zoom));
+
+const lerp = (from: number, to: number, progress: number) => from + (to - from) * progress;
+
+// The keyframe `progress` (0 to 1) of the way through the motion; the motion is linear
+export const getMotionKeyframe = (motion: ImageMotion, progress: number): MotionKeyframe => {
+  const t = Math.min(1, Math.max(0, progress));
+  return {
+    zoom: lerp(motion.start.zoom, motion.end.zoom, t),
+    x: lerp(motion.start.x, motion.end.x, t),
+    y: lerp(motion.start.y, motion.end.y, t),
+  };
+};
+
+// The part of the motion between two points in it, e.g. for each half of a split clip
+export const sliceMotion = (motion: ImageMotion, from: number, to: number): ImageMotion => ({
+  start: getMotionKeyframe(motion, from),
+  end: getMotionKeyframe(motion, to),
+});
+
+// The window of a `width` x `height` image that is shown `progress` of the way through the motion
+export const getMotionWindow = (motion: ImageMotion, progress: number, width: number, height: number): Rect => {
+  const { zoom, x, y } = getMotionKeyframe(motion, progress);
+  const windowWidth = width / clampZoom(zoom);
+  const windowHeight = height / clampZoom(zoom);
+
+  return {
+    x: (width - windowWidth) * x,
+    y: (height - windowHeight) * y,
+    width: windowWidth,
+    height: windowHeight,
+  };
+};
+
+// zoompan filter that plays the motion over `duration` seconds on a looped `width` x `height` image.
+// Its output keeps the image size (rounded to even), so the usual scaling and padding follow it.
+export const getMotionFilter = (
+  motion: ImageMotion,
+  duration: number,
+  frameRate: number,
+  width: number,
+  height: number
+): string => {
+  const progress = `min(1,on/${formatValue(Math.max(1, duration * frameRate))})`;
+  const track = (from: number, to: number) => `${formatValue(from)}+${formatValue(to - from)}*${progress}`;
+  const size = `${Math.max(2, Math.round(width / 2) * 2)}x${Math.max(2, Math.round(height / 2) * 2)}`;
+
+  return (
+    `zoompan=z='${track(clampZoom(motion.start.zoom), clampZoom(motion.end.zoom))}':` +
+    `x='(iw-iw/zoom)*(${track(motion.start.x, motion.end.x)})':` +
+    `y='(ih-ih/zoom)*(${track(motion.start.y, motion.end.y)})':` +
+    `d=1:s=${size}:fps=${frameRate}`
+  );
+};
+
+// Draw an image file (e.g. an SVG, which ffmpeg can't read) into a PNG of the given size for export
+export const rasterizeImage = (url: string, width: number, height: number): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+      ctx.drawImage(image, 0, 0, width, height);
+
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new Error(`Failed to rasterize ${url}`));
+          return;
+        }
+        blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+      }, 'image/png');
+    };
+    image.onerror = () => reject(new Error(`Failed to load ${url}`));
+    image.src = url;
+  });
+};
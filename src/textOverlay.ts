@@ -0,0 +1,142 @@
+/**
+ * ClipForge - Text Overlays
+ *
+ * Text clips (titles, lower-thirds, callouts) have no source file. They are
+ * drawn with the canvas API: live into the preview, and into a full-frame
+ * transparent PNG for export, so both use the exact same layout and font
+ * rendering. Entry animations are applied on top (canvas transform in the
+ * preview, ffmpeg fade/overlay expressions in export).
+ */
+
+export type TextPosition =
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'middle-left'
+  | 'center'
+  | 'middle-right'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right';
+
+export type TextAnimation = 'none' | 'fade' | 'slide';
+
+export interface TextOverlay {
+  content: string;
+  fontFamily: string;
+  // Pixels at 1080p; scaled with the frame so text keeps its proportions at any resolution
+  fontSize: number;
+  bold: boolean;
+  color: string;
+  background: boolean;
+  backgroundColor: string;
+  backgroundOpacity: number;
+  position: TextPosition;
+  animation: TextAnimation;
+}
+
+export const DEFAULT_TEXT_OVERLAY: TextOverlay = {
+  content: 'Title',
+  fontFamily: 'Helvetica',
+  fontSize: 72,
+  bold: true,
+  color: '#ffffff',
+  background: false,
+  backgroundColor: '#000000',
+  backgroundOpacity: 0.6,
+  position: 'center',
+  animation: 'fade',
+};
+
+export const TEXT_FONT_FAMILIES = ['Helvetica', 'Arial', 'Verdana', 'Georgia', 'Times New Roman', 'Courier New', 'Impact'];
+
+// Default length of a new text clip, in seconds
+export const DEFAULT_TEXT_DURATION = 5;
+
+// Length of the fade/slide-in at the start of a text clip, in seconds
+export const TEXT_ANIMATION_DURATION = 0.5;
+
+// Distance from the frame edge to the text box, as a fraction of the frame's shorter side
+const SAFE_MARGIN = 0.05;
+// Font sizes are defined against a 1080-pixel frame
+const REFERENCE_SIZE = 1080;
+const LINE_HEIGHT = 1.2;
+
+// Slide-in eases out: fast at first, settling into place. Export uses the same curve.
+export const getSlideOffset = (elapsed: number, frameWidth: number): number => {
+  const progress = Math.min(1, Math.max(0, elapsed / TEXT_ANIMATION_DURATION));
+  return -frameWidth * Math.pow(1 - progress, 3);
+};
+
+// Draw `text` into a frame of the given size. `elapsed` is seconds since the clip started, which
+// drives the entry animation; pass TEXT_ANIMATION_DURATION or more to draw the settled state.
+export const drawTextOverlay = (
+  ctx: CanvasRenderingContext2D,
+  text: TextOverlay,
+  frameWidth: number,
+  frameHeight: number,
+  elapsed: number
+) => {
+  const lines = text.content.split('\n');
+  const scale = Math.min(frameWidth, frameHeight) / REFERENCE_SIZE;
+  const fontSize = text.fontSize * scale;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const padding = text.background ? fontSize * 0.4 : 0;
+  const margin = Math.min(frameWidth, frameHeight) * SAFE_MARGIN;
+
+  ctx.save();
+  ctx.font = `${text.bold ? 'bold ' : ''}${fontSize}px "${text.fontFamily}", sans-serif`;
+  ctx.textBaseline = 'top';
+
+  const textWidth = Math.max(...lines.map((line) => ctx.measureText(line).width));
+  const boxWidth = textWidth + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding * 2;
+
+  const [row, column] = text.position === 'center' ? ['middle', 'center'] : text.position.split('-');
+  const x = column === 'left' ? margin : column === 'right' ? frameWidth - margin - boxWidth : (frameWidth - boxWidth) / 2;
+  const y = row === 'top' ? margin : row === 'bottom' ? frameHeight - margin - boxHeight : (frameHeight - boxHeight) / 2;
+
+  if (text.animation === 'fade') {
+    ctx.globalAlpha = Math.min(1, Math.max(0, elapsed / TEXT_ANIMATION_DURATION));
+  } else if (text.animation === 'slide') {
+    ctx.translate(getSlideOffset(elapsed, frameWidth), 0);
+  }
+
+  if (text.background) {
+    ctx.save();
+    ctx.globalAlpha *= text.backgroundOpacity;
+    ctx.fillStyle = text.backgroundColor;
+    ctx.fillRect(x, y, boxWidth, boxHeight);
+    ctx.restore();
+  }
+
+  ctx.fillStyle = text.color;
+  ctx.textAlign = column === 'left' ? 'left' : column === 'right' ? 'right' : 'center';
+  const lineX = column === 'left' ? x + padding : column === 'right' ? x + boxWidth - padding : x + boxWidth / 2;
+  lines.forEach((line, index) => {
+    ctx.fillText(line, lineX, y + padding + index * lineHeight + (lineHeight - fontSize) / 2);
+  });
+
+  ctx.restore();
+};
+
+// Render the settled text as a transparent full-frame PNG for export
+export const renderTextImage = (text: TextOverlay, frameWidth: number, frameHeight: number): Promise<Uint8Array> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = frameWidth;
+  canvas.height = frameHeight;
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+
+  // Animations are applied by ffmpeg, so draw without them
+  drawTextOverlay(ctx, { ...text, animation: 'none' }, frameWidth, frameHeight, TEXT_ANIMATION_DURATION);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Failed to render text'));
+        return;
+      }
+      blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+  });
+};